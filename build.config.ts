@@ -3,6 +3,8 @@ import { defineBuildConfig } from 'unbuild'
 export default defineBuildConfig({
   entries: [
     'src/index',
+    // Browser client, served to the page by the plugin
+    'src/client',
   ],
   declaration: true,
   clean: true,
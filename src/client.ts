@@ -0,0 +1,839 @@
+/**
+ * Browser entry for the DevTools client, served as /__react-devtools/client.js
+ */
+
+import { captureSubtree } from './component-snapshots'
+import { setSelectedComponentGlobal, storeAsGlobal } from './console-globals'
+import { patchConsole, setHideConsoleLogsInStrictMode } from './console-patch'
+import { DEVTOOLS_EVENT } from './constants'
+import { setInDehydrated } from './dehydrate'
+import { isElementPickerActive, startElementPicker, stopElementPicker } from './element-picker'
+import { clearHighlight, highlightComponent } from './highlighter'
+import { overrideHookState, overrideProps, overrideState } from './overrides'
+import { fromReactDevToolsProfile } from './profile-export'
+import { captureCommit, isProfiling, startProfiling, stopProfiling } from './profiler'
+import { collectRenderedComponents } from './fiber-tags'
+import { inspectComponentHooks, inspectComponentPath, setupReactIntegration } from './react-detector'
+import { getRenderReasons, recordRenderReasons } from './render-reasons'
+import { getStateHistory, recordStateHistory, restoreStateSnapshot, setTrackedComponents } from './state-history'
+import type { ComponentTreeStore } from './tree-operations'
+import { setTraceUpdatesEnabled, traceUpdates } from './trace-updates'
+import { applyTreeOperations, computeTreeOperations, createTreeSnapshot, createTreeStore, getTreeRevision } from './tree-operations'
+import type { ComponentSnapshot, ComponentSource, ConsoleEntry, DevToolsMessage, FiberRoot, Hook, ProfilingSession, ReactComponent, RenderReason, StateSnapshot, TreeOperation } from './types'
+import { createDevToolsUI, createToggleButton, expandComponents, getHookSourceKey, renderComponentTree, renderConsole, renderProfiler, renderSnapshots, scrollComponentIntoView, setHideStrictModeLogsChecked, setPickerActive, setTraceUpdatesActive, showInspectorError, showProfilerError, updatePropsInspector } from './ui'
+
+export interface DevToolsClientOptions {
+  transport: 'vite' | 'websocket'
+  port: number
+  // Default of the panel setting, until it is changed in the Console tab
+  hideConsoleLogsInStrictMode?: boolean
+}
+
+interface ClientState {
+  connected: boolean
+  reactIntegrated: boolean
+  ws?: WebSocket
+  reconnectAttempts: number
+  devToolsUI?: HTMLElement
+  // Set when commits went undiffed, so the next update must be a snapshot
+  needsSnapshot: boolean
+  store: ComponentTreeStore
+  selectedId?: number
+  // Paths the user expanded in the selected component, refetched after updates
+  inspectedPaths: Array<Array<string | number>>
+  // Last inspected hooks of the selected component, updates only carry the raw list
+  inspectedHooks: Hook[] | null
+  // Why the selected component rendered, oldest first
+  renderReasons: RenderReason[]
+  // Recorded state of the selected component, oldest first
+  stateHistory: StateSnapshot[]
+  // Components whose state keeps being recorded while others are selected
+  pinnedIds: Set<number>
+  // Commits that rendered something, numbering render reasons and snapshots
+  commitCount: number
+  // Variable names of hooks by call location, null while unresolved
+  hookNames: Map<string, string | null>
+  // Component picked from the page, scrolled to once the selection renders
+  revealId?: number
+  // Panel setting for flashing components that render, kept across reloads
+  traceUpdates: boolean
+  // Panel setting for leaving out StrictMode's repeated logs rather than dimming them
+  hideStrictModeLogs: boolean
+  // Last recording the dev server kept, and commits sent for the current one
+  profilingSession: ProfilingSession | null
+  recordedCommits: number
+  // Snapshots the dev server keeps, and the selected subtree to diff them with
+  snapshots: ComponentSnapshot[]
+  liveSnapshot: ReactComponent | null
+  // Console output attributed to components, oldest first
+  consoleEntries: ConsoleEntry[]
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5
+const MAX_CONSOLE_ENTRIES = 500
+const TRACE_UPDATES_STORAGE_KEY = 'react-devtools:trace-updates'
+const HIDE_STRICT_MODE_LOGS_STORAGE_KEY = 'react-devtools:hide-strict-mode-logs'
+
+const state: ClientState = {
+  connected: false,
+  reactIntegrated: false,
+  reconnectAttempts: 0,
+  needsSnapshot: true,
+  store: createTreeStore([], 0),
+  inspectedPaths: [],
+  inspectedHooks: null,
+  renderReasons: [],
+  stateHistory: [],
+  pinnedIds: new Set(),
+  commitCount: 0,
+  hookNames: new Map(),
+  traceUpdates: readStoredFlag(TRACE_UPDATES_STORAGE_KEY),
+  hideStrictModeLogs: false,
+  profilingSession: null,
+  recordedCommits: 0,
+  snapshots: [],
+  liveSnapshot: null,
+  consoleEntries: [],
+}
+
+/**
+ * Boots the DevTools client: connects to the dev server, hooks into React and
+ * mounts the panel
+ */
+export function setupDevToolsClient(options: DevToolsClientOptions) {
+  // Expose DevTools API to global scope
+  window.__REACT_DEVTOOLS__ = { send }
+  state.hideStrictModeLogs = readStoredFlag(HIDE_STRICT_MODE_LOGS_STORAGE_KEY, options.hideConsoleLogsInStrictMode)
+  setHideConsoleLogsInStrictMode(state.hideStrictModeLogs)
+  patchConsole(entry => send({ type: 'CONSOLE_ENTRY', data: { entry } }))
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', initializeUI)
+  }
+  else {
+    initializeUI()
+  }
+
+  if (options.transport === 'vite') {
+    connectVite()
+  }
+  else {
+    connectWebSocket(options.port)
+  }
+}
+
+/**
+ * Sends a message to the dev server over the active transport
+ */
+function send(message: DevToolsMessage) {
+  if (!state.connected) {
+    return
+  }
+
+  if (state.ws) {
+    if (state.ws.readyState === WebSocket.OPEN) {
+      state.ws.send(JSON.stringify(message))
+    }
+  }
+  else {
+    import.meta.hot?.send(DEVTOOLS_EVENT, message)
+  }
+}
+
+function onConnected() {
+  // eslint-disable-next-line no-console
+  console.log('🔗 Connected to React DevTools')
+  state.connected = true
+  state.reconnectAttempts = 0
+
+  // Set up React integration once, reconnects reuse it
+  if (!state.reactIntegrated) {
+    state.reactIntegrated = true
+    setupReactIntegration({
+      onReady: sendComponentTree,
+      onCommit: handleCommit,
+    })
+  }
+
+  sendComponentTree()
+  send({ type: 'GET_PROFILING_DATA' })
+  send({ type: 'GET_SNAPSHOTS' })
+  if (state.traceUpdates) {
+    send({ type: 'SET_TRACE_UPDATES', data: { enabled: true } })
+  }
+}
+
+function onDisconnected() {
+  // eslint-disable-next-line no-console
+  console.log('🔌 Disconnected from React DevTools')
+  state.connected = false
+  state.needsSnapshot = true
+}
+
+/**
+ * Vite transport: rides on the HMR connection, so DevTools works wherever the
+ * dev server is reachable (proxies, Docker port mappings, HTTPS)
+ */
+function connectVite() {
+  const hot = import.meta.hot
+  if (!hot) {
+    console.warn('React DevTools: import.meta.hot is unavailable, is HMR disabled?')
+    return
+  }
+
+  hot.on(DEVTOOLS_EVENT, handleDevToolsMessage)
+  hot.on('vite:ws:disconnect', onDisconnected)
+  // The HMR socket is usually open by the time this module runs, and Vite
+  // buffers what is sent before it opens. Only reconnects announce anything new.
+  hot.on('vite:ws:connect', () => {
+    if (!state.connected) {
+      onConnected()
+    }
+  })
+  onConnected()
+}
+
+/**
+ * Standalone transport: a dedicated WebSocket server on a fixed port
+ */
+function connectWebSocket(port: number) {
+  try {
+    const ws = new WebSocket(`ws://${location.hostname}:${port}`)
+    state.ws = ws
+
+    ws.onopen = onConnected
+
+    ws.onmessage = (event) => {
+      try {
+        handleDevToolsMessage(JSON.parse(event.data))
+      }
+      catch (error) {
+        console.error('Failed to parse DevTools message:', error)
+      }
+    }
+
+    ws.onclose = () => {
+      onDisconnected()
+
+      // Attempt to reconnect
+      if (state.reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+        state.reconnectAttempts++
+        setTimeout(() => connectWebSocket(port), 1000 * state.reconnectAttempts)
+      }
+    }
+
+    ws.onerror = (error) => {
+      console.error('React DevTools connection error:', error)
+    }
+  }
+  catch (error) {
+    console.error('Failed to connect to React DevTools:', error)
+  }
+}
+
+/**
+ * Handles messages routed back from the dev server
+ */
+function handleDevToolsMessage(message: DevToolsMessage) {
+  switch (message.type) {
+    case 'GET_COMPONENT_TREE':
+      sendComponentTree()
+      break
+
+    case 'COMPONENT_TREE':
+      state.store = createTreeStore(message.data.tree, message.data.revision)
+      requestInspectedHooks()
+      scheduleRender()
+      break
+
+    case 'TREE_OPERATIONS':
+      // Operations diffed against an older snapshot are superseded by the newer one
+      if (message.data.revision !== state.store.revision) {
+        break
+      }
+      if (!applyTreeOperations(state.store, message.data.operations)) {
+        send({ type: 'GET_COMPONENT_TREE' })
+        break
+      }
+      if (message.data.operations.some((operation: TreeOperation) => operation.op === 'update' && operation.id === state.selectedId)) {
+        reinspectSelected()
+      }
+      scheduleRender()
+      break
+
+    case 'COMPONENT_SELECTED':
+      if (state.selectedId !== message.data?.componentId) {
+        state.inspectedPaths = []
+        state.inspectedHooks = null
+        state.renderReasons = []
+        state.stateHistory = []
+        state.liveSnapshot = null
+      }
+      state.selectedId = message.data?.componentId
+      setSelectedComponentGlobal(state.selectedId)
+      requestInspectedHooks()
+      send({ type: 'GET_RENDER_REASONS', data: { componentId: state.selectedId } })
+      trackStateHistory()
+      requestLiveSnapshot()
+      scheduleRender()
+      break
+
+    case 'INSPECT_ELEMENT': {
+      const { componentId, path } = message.data
+      const value = inspectComponentPath(componentId, path)
+      if (value !== null) {
+        send({ type: 'INSPECTED_ELEMENT', data: { componentId, path, value } })
+      }
+      break
+    }
+
+    case 'INSPECT_HOOKS': {
+      const { componentId } = message.data
+      const hooks = inspectComponentHooks(componentId)
+      if (hooks) {
+        send({ type: 'INSPECTED_HOOKS', data: { componentId, hooks } })
+      }
+      break
+    }
+
+    case 'STORE_AS_GLOBAL': {
+      const { componentId, path } = message.data
+      const error = storeAsGlobal(componentId, path)
+      if (error) {
+        send({ type: 'UPDATE_FAILED', data: { componentId, error: `Could not store ${path.join('.')} as a global: ${error}` } })
+      }
+      break
+    }
+
+    case 'GET_RENDER_REASONS': {
+      const { componentId } = message.data
+      send({ type: 'RENDER_REASONS', data: { componentId, reasons: getRenderReasons(componentId) } })
+      break
+    }
+
+    case 'RENDER_REASONS':
+      if (message.data.componentId === state.selectedId) {
+        state.renderReasons = message.data.reasons
+        scheduleRender()
+      }
+      break
+
+    case 'TRACK_STATE_HISTORY':
+      setTrackedComponents(message.data.componentIds)
+      break
+
+    case 'GET_STATE_HISTORY': {
+      const { componentId } = message.data
+      send({ type: 'STATE_HISTORY', data: { componentId, snapshots: getStateHistory(componentId) } })
+      break
+    }
+
+    case 'STATE_HISTORY':
+      if (message.data.componentId === state.selectedId) {
+        state.stateHistory = message.data.snapshots
+        scheduleRender()
+      }
+      break
+
+    case 'RESTORE_STATE': {
+      const { componentId, snapshotId } = message.data
+      const error = restoreStateSnapshot(componentId, snapshotId)
+      if (error) {
+        send({ type: 'UPDATE_FAILED', data: { componentId, error: `Could not restore state: ${error}` } })
+      }
+      break
+    }
+
+    case 'CAPTURE_SNAPSHOT': {
+      const { componentId, name } = message.data
+      const tree = captureSubtree(componentId)
+      if (tree) {
+        send({ type: 'SAVE_SNAPSHOT', data: { name, tree } })
+      }
+      else {
+        send({ type: 'UPDATE_FAILED', data: { componentId, error: 'Could not take a snapshot: the component is no longer mounted' } })
+      }
+      break
+    }
+
+    case 'GET_LIVE_SNAPSHOT': {
+      const { componentId } = message.data
+      send({ type: 'LIVE_SNAPSHOT', data: { componentId, tree: captureSubtree(componentId) } })
+      break
+    }
+
+    case 'LIVE_SNAPSHOT':
+      if (message.data.componentId === state.selectedId) {
+        state.liveSnapshot = message.data.tree
+        scheduleRender()
+      }
+      break
+
+    case 'CONSOLE_ENTRY':
+      state.consoleEntries.push(message.data.entry)
+      if (state.consoleEntries.length > MAX_CONSOLE_ENTRIES) {
+        state.consoleEntries.shift()
+      }
+      scheduleRender()
+      break
+
+    case 'SNAPSHOTS':
+      state.snapshots = message.data.snapshots
+      requestLiveSnapshot()
+      scheduleRender()
+      break
+
+    case 'PROFILING_DATA':
+      state.profilingSession = message.data.session
+      scheduleRender()
+      break
+
+    case 'UPDATE_PROPS': {
+      const { componentId, path, value } = message.data
+      const error = overrideProps(componentId, path, value)
+      if (error) {
+        send({ type: 'UPDATE_FAILED', data: { componentId, error: `Could not edit props.${path.join('.')}: ${error}` } })
+      }
+      break
+    }
+
+    case 'UPDATE_STATE': {
+      const { componentId, hookIndex, path, value } = message.data
+      const error = hookIndex === undefined
+        ? overrideState(componentId, path, value)
+        : overrideHookState(componentId, hookIndex, path, value)
+      if (error) {
+        const target = hookIndex === undefined ? ['state', ...path] : [`hooks[${hookIndex}]`, ...path]
+        send({ type: 'UPDATE_FAILED', data: { componentId, error: `Could not edit ${target.join('.')}: ${error}` } })
+      }
+      break
+    }
+
+    case 'SET_TRACE_UPDATES':
+      setTraceUpdatesEnabled(message.data.enabled)
+      break
+
+    case 'HIGHLIGHT_COMPONENT':
+      highlightComponent(message.data.componentId)
+      break
+
+    case 'CLEAR_HIGHLIGHT':
+      clearHighlight()
+      break
+
+    case 'UPDATE_FAILED':
+      if (state.devToolsUI && message.data.componentId === state.selectedId) {
+        showInspectorError(state.devToolsUI, message.data.error)
+      }
+      break
+
+    case 'HOOK_NAMES':
+      for (const { source, name } of message.data.names) {
+        state.hookNames.set(getHookSourceKey(source), name)
+      }
+      scheduleRender()
+      break
+
+    case 'INSPECTED_HOOKS': {
+      const { componentId, hooks } = message.data
+      const component = state.store.nodes.get(componentId)
+      if (component && componentId === state.selectedId) {
+        state.inspectedHooks = hooks
+        component.hooks = hooks
+        scheduleRender()
+      }
+      break
+    }
+
+    case 'INSPECTED_ELEMENT': {
+      const { componentId, path, value } = message.data
+      const component = state.store.nodes.get(componentId)
+      if (component && setInDehydrated(component, path, value)) {
+        if (componentId === state.selectedId && !state.inspectedPaths.some(inspected => inspected.join('.') === path.join('.'))) {
+          state.inspectedPaths.push(path)
+        }
+        scheduleRender()
+      }
+      break
+    }
+  }
+}
+
+/**
+ * Updates replace the selected component's data with a shallow copy, so its
+ * hooks are inspected and the values the user had expanded are fetched again,
+ * along with the reason for the render and the state it recorded
+ */
+function reinspectSelected() {
+  requestInspectedHooks()
+  send({ type: 'GET_RENDER_REASONS', data: { componentId: state.selectedId } })
+  send({ type: 'GET_STATE_HISTORY', data: { componentId: state.selectedId } })
+  requestLiveSnapshot()
+  for (const path of state.inspectedPaths) {
+    send({ type: 'INSPECT_ELEMENT', data: { componentId: state.selectedId, path } })
+  }
+}
+
+/**
+ * Asks for the selected component's hooks to be inspected, which renders it
+ * again, so only the inspector pays for it. Until they arrive the last
+ * inspected hooks stand in for the raw list the tree carries.
+ */
+function requestInspectedHooks() {
+  const selected = state.selectedId !== undefined ? state.store.nodes.get(state.selectedId) : undefined
+  if (!selected) {
+    return
+  }
+
+  if (state.inspectedHooks) {
+    selected.hooks = state.inspectedHooks
+  }
+  send({ type: 'INSPECT_HOOKS', data: { componentId: selected.id } })
+}
+
+/**
+ * Records what rendered in every commit and diffs it into tree operations for
+ * the panel
+ */
+function handleCommit(_rendererId: number, root: FiberRoot, priorityLevel?: number) {
+  if (root.current) {
+    const rendered = collectRenderedComponents(root.current)
+    traceUpdates(rendered)
+    if (rendered.length > 0) {
+      state.commitCount++
+      recordRenderReasons(rendered, state.commitCount)
+      recordStateHistory(rendered, state.commitCount)
+    }
+  }
+
+  const commit = captureCommit(root, priorityLevel)
+  if (commit) {
+    state.recordedCommits++
+    send({ type: 'PROFILER_COMMIT', data: { commit } })
+    scheduleRender()
+  }
+
+  if (!state.connected || state.needsSnapshot) {
+    state.needsSnapshot = true
+    return
+  }
+
+  const operations = computeTreeOperations(root)
+  if (operations.length > 0) {
+    send({
+      type: 'TREE_OPERATIONS',
+      data: { revision: getTreeRevision(), operations },
+    })
+  }
+}
+
+/**
+ * Sends a full snapshot of the tree, used on connect and when the panel resyncs
+ */
+function sendComponentTree() {
+  if (!state.connected) {
+    return
+  }
+
+  const { tree, revision } = createTreeSnapshot()
+  state.needsSnapshot = false
+  send({
+    type: 'COMPONENT_TREE',
+    data: { tree, revision, selectedId: state.selectedId },
+  })
+}
+
+let renderFrame: number | undefined
+
+/**
+ * Coalesces bursts of updates into a single panel render per frame
+ */
+function scheduleRender() {
+  if (renderFrame === undefined) {
+    renderFrame = requestAnimationFrame(() => {
+      renderFrame = undefined
+      renderPanel()
+    })
+  }
+}
+
+function renderPanel() {
+  if (!state.devToolsUI) {
+    return
+  }
+
+  renderComponentTree(state.devToolsUI, state.store.roots, state.selectedId)
+  renderProfiler(state.devToolsUI, state.profilingSession, isProfiling(), state.recordedCommits)
+  renderSnapshots(state.devToolsUI, state.snapshots, state.liveSnapshot)
+  renderConsole(state.devToolsUI, state.consoleEntries)
+  if (state.revealId !== undefined && state.revealId === state.selectedId) {
+    scrollComponentIntoView(state.devToolsUI, state.revealId)
+    state.revealId = undefined
+  }
+
+  const selected = state.selectedId !== undefined ? state.store.nodes.get(state.selectedId) : undefined
+  if (selected) {
+    updatePropsInspector(state.devToolsUI, selected, state.hookNames, {
+      renderReasons: state.renderReasons,
+      stateHistory: state.stateHistory,
+      pinned: state.pinnedIds.has(selected.id),
+    })
+    requestHookNames(selected.hooks || [])
+  }
+}
+
+/**
+ * Asks the dev server for the variable names of hooks called from locations
+ * it hasn't seen yet. Hot updates change the module URL, so edited files are
+ * resolved again.
+ */
+function requestHookNames(hooks: Hook[]) {
+  if (!state.connected) {
+    return
+  }
+
+  const sources: ComponentSource[] = []
+  const collect = (hooks: Hook[]) => {
+    for (const hook of hooks) {
+      if (hook.hookSource && !state.hookNames.has(getHookSourceKey(hook.hookSource))) {
+        state.hookNames.set(getHookSourceKey(hook.hookSource), null)
+        sources.push(hook.hookSource)
+      }
+      collect(hook.subHooks || [])
+    }
+  }
+  collect(hooks)
+
+  if (sources.length > 0) {
+    send({ type: 'GET_HOOK_NAMES', data: { sources } })
+  }
+}
+
+/**
+ * Tells the backend which components to record the state of: the selected
+ * one and the pinned ones
+ */
+function trackStateHistory() {
+  const componentIds = [...state.pinnedIds]
+  if (state.selectedId !== undefined && !state.pinnedIds.has(state.selectedId)) {
+    componentIds.push(state.selectedId)
+  }
+  send({ type: 'TRACK_STATE_HISTORY', data: { componentIds } })
+  if (state.selectedId !== undefined) {
+    send({ type: 'GET_STATE_HISTORY', data: { componentId: state.selectedId } })
+  }
+}
+
+function togglePinned() {
+  if (state.selectedId === undefined) {
+    return
+  }
+
+  if (!state.pinnedIds.delete(state.selectedId)) {
+    state.pinnedIds.add(state.selectedId)
+  }
+  trackStateHistory()
+  scheduleRender()
+}
+
+/**
+ * Saves the selected component's subtree under the name typed in the
+ * Snapshots tab
+ */
+function takeSnapshot() {
+  const input = state.devToolsUI?.querySelector('.snapshot-name') as HTMLInputElement | null
+  if (state.selectedId === undefined || !input) {
+    return
+  }
+
+  const name = input.value.trim() || `Snapshot ${state.snapshots.length + 1}`
+  input.value = ''
+  send({ type: 'CAPTURE_SNAPSHOT', data: { componentId: state.selectedId, name } })
+}
+
+/**
+ * Reads the selected subtree again for the snapshot diff. Updates of the
+ * selected component refresh it, changes further down need the ↻ button.
+ */
+function requestLiveSnapshot() {
+  if (state.snapshots.length > 0 && state.selectedId !== undefined) {
+    send({ type: 'GET_LIVE_SNAPSHOT', data: { componentId: state.selectedId } })
+  }
+}
+
+function toggleTraceUpdates() {
+  state.traceUpdates = !state.traceUpdates
+  writeStoredFlag(TRACE_UPDATES_STORAGE_KEY, state.traceUpdates)
+  if (state.devToolsUI) {
+    setTraceUpdatesActive(state.devToolsUI, state.traceUpdates)
+  }
+  send({ type: 'SET_TRACE_UPDATES', data: { enabled: state.traceUpdates } })
+}
+
+function toggleHideStrictModeLogs() {
+  state.hideStrictModeLogs = !state.hideStrictModeLogs
+  writeStoredFlag(HIDE_STRICT_MODE_LOGS_STORAGE_KEY, state.hideStrictModeLogs)
+  setHideConsoleLogsInStrictMode(state.hideStrictModeLogs)
+}
+
+/**
+ * Starts or stops recording commits. The dev server keeps the recording and
+ * sends it back once stopped.
+ */
+function toggleProfiling() {
+  if (!state.connected) {
+    return
+  }
+
+  if (isProfiling()) {
+    stopProfiling()
+    send({ type: 'STOP_PROFILING' })
+  }
+  else {
+    state.recordedCommits = 0
+    send({ type: 'START_PROFILING' })
+    startProfiling()
+  }
+  scheduleRender()
+}
+
+/**
+ * Loads a profile exported from React DevTools into the Profiler tab. It stays
+ * on the panel, the dev server's session is only replaced by recording again.
+ */
+async function importProfile(file: File) {
+  try {
+    const session = fromReactDevToolsProfile(JSON.parse(await file.text()))
+    if (!session) {
+      throw new Error('not a React DevTools profile')
+    }
+    state.profilingSession = session
+    scheduleRender()
+  }
+  catch (error) {
+    if (state.devToolsUI) {
+      showProfilerError(state.devToolsUI, `Could not import ${file.name}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+}
+
+/**
+ * Reads a panel setting, storage can be unavailable in sandboxed frames
+ */
+function readStoredFlag(key: string, fallback = false): boolean {
+  try {
+    const value = localStorage.getItem(key)
+    return value === null ? fallback : value === 'true'
+  }
+  catch {
+    return fallback
+  }
+}
+
+function writeStoredFlag(key: string, value: boolean) {
+  try {
+    localStorage.setItem(key, String(value))
+  }
+  catch {}
+}
+
+/**
+ * Toggles the element picker, which selects the component rendering whatever
+ * is clicked in the page
+ */
+function toggleElementPicker() {
+  const devToolsUI = state.devToolsUI
+  if (!devToolsUI) {
+    return
+  }
+
+  if (isElementPickerActive()) {
+    stopElementPicker()
+    return
+  }
+
+  setPickerActive(devToolsUI, true)
+  startElementPicker({
+    ignore: element => devToolsUI.contains(element) || element.id === 'react-devtools-toggle',
+    onPick: selectPickedComponent,
+    onStop: () => setPickerActive(devToolsUI, false),
+  })
+}
+
+function selectPickedComponent(componentId: number) {
+  if (!state.store.nodes.has(componentId)) {
+    return
+  }
+
+  // Expand the ancestors so the component is visible once selected
+  const ancestors: number[] = []
+  for (let id = state.store.parents.get(componentId); id !== undefined; id = state.store.parents.get(id)) {
+    ancestors.push(id)
+  }
+  expandComponents(ancestors)
+
+  state.revealId = componentId
+  state.devToolsUI?.classList.add('open')
+  send({ type: 'SELECT_COMPONENT', data: { componentId } })
+}
+
+function initializeUI() {
+  if (state.devToolsUI) {
+    return
+  }
+
+  const devToolsUI = createDevToolsUI()
+  document.body.appendChild(createToggleButton())
+  document.body.appendChild(devToolsUI)
+  state.devToolsUI = devToolsUI
+
+  devToolsUI.querySelector('.devtools-picker')?.addEventListener('click', toggleElementPicker)
+  devToolsUI.querySelector('.devtools-trace-updates')?.addEventListener('click', toggleTraceUpdates)
+  devToolsUI.querySelector('.profiler-record')?.addEventListener('click', toggleProfiling)
+  devToolsUI.querySelector('.state-history-pin')?.addEventListener('click', togglePinned)
+  devToolsUI.querySelector('.snapshot-take')?.addEventListener('click', takeSnapshot)
+  devToolsUI.querySelector('.snapshot-name')?.addEventListener('keydown', (event) => {
+    if ((event as KeyboardEvent).key === 'Enter') {
+      takeSnapshot()
+    }
+  })
+  devToolsUI.querySelector('.snapshot-refresh')?.addEventListener('click', requestLiveSnapshot)
+  devToolsUI.querySelector('.console-clear')?.addEventListener('click', () => {
+    state.consoleEntries = []
+    scheduleRender()
+  })
+  devToolsUI.querySelector('.console-hide-strict-mode')?.addEventListener('change', toggleHideStrictModeLogs)
+  const importInput = devToolsUI.querySelector('.profiler-import-file') as HTMLInputElement | null
+  devToolsUI.querySelector('.profiler-import')?.addEventListener('click', () => importInput?.click())
+  importInput?.addEventListener('change', () => {
+    const file = importInput.files?.[0]
+    importInput.value = ''
+    if (file) {
+      importProfile(file)
+    }
+  })
+  setTraceUpdatesActive(devToolsUI, state.traceUpdates)
+  setHideStrictModeLogsChecked(devToolsUI, state.hideStrictModeLogs)
+  document.addEventListener('keydown', (event) => {
+    // Browsers keep Ctrl/Cmd+Shift+C for their own inspector. The key code,
+    // since Alt turns P into another character on macOS.
+    if (event.altKey && event.shiftKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyP') {
+      event.preventDefault()
+      toggleElementPicker()
+    }
+  })
+
+  window.__REACT_DEVTOOLS_UI__ = {
+    toggle: () => {
+      devToolsUI.classList.toggle('open')
+    },
+    close: () => {
+      devToolsUI.classList.remove('open')
+    },
+    open: () => {
+      devToolsUI.classList.add('open')
+    },
+  }
+
+  renderPanel()
+}
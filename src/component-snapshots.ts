@@ -0,0 +1,160 @@
+/**
+ * Component snapshots
+ *
+ * A snapshot is the transport form of a subtree, props, state and hooks
+ * included, dehydrated deeper than the tree so nested changes show up. The
+ * dev server keeps them by name across page reloads. Two subtrees are diffed
+ * value by value, children being matched by name and key since component IDs
+ * don't survive a reload.
+ */
+
+import { isDehydratedEnvelope } from './dehydrate'
+import { getFiberById } from './fiber-registry'
+import { fiberToComponent, toTransportTree } from './react-detector'
+import type { DehydratedValue, Hook, ReactComponent, SnapshotChange } from './types'
+
+// Levels of nested values copied into a snapshot
+const SNAPSHOT_DEPTH = 8
+
+/**
+ * Captures a mounted component and everything below it, or returns null once
+ * it has unmounted
+ */
+export function captureSubtree(componentId: number): ReactComponent | null {
+  const fiber = getFiberById(componentId)
+  const component = fiber && fiberToComponent(fiber)
+  return component ? toTransportTree([component], SNAPSHOT_DEPTH)[0] : null
+}
+
+/**
+ * Lists what changed from one subtree to another: values with the full path
+ * to them, and children that were added or removed
+ */
+export function diffSnapshots(before: ReactComponent, after: ReactComponent): SnapshotChange[] {
+  const changes: SnapshotChange[] = []
+  diffComponents(before, after, getComponentName(after), changes)
+  return changes
+}
+
+function diffComponents(before: ReactComponent, after: ReactComponent, path: string, changes: SnapshotChange[]) {
+  diffValues(before.props, after.props, `${path} > props`, changes)
+  if (before.state !== undefined || after.state !== undefined) {
+    diffValues(before.state, after.state, `${path} > state`, changes)
+  }
+  diffHooks(before.hooks || [], after.hooks || [], `${path} > hooks`, changes)
+
+  const previous = labelChildren(before.children)
+  const next = labelChildren(after.children)
+  for (const [label, child] of previous) {
+    const match = next.get(label)
+    if (match) {
+      diffComponents(child, match, `${path} > ${label}`, changes)
+    }
+    else {
+      changes.push({ kind: 'removed', path: `${path} > ${label}` })
+    }
+  }
+  for (const label of next.keys()) {
+    if (!previous.has(label)) {
+      changes.push({ kind: 'added', path: `${path} > ${label}` })
+    }
+  }
+}
+
+/**
+ * Hooks are matched by their place in the list, custom hooks nest theirs
+ */
+function diffHooks(before: Hook[], after: Hook[], path: string, changes: SnapshotChange[]) {
+  for (let index = 0; index < Math.max(before.length, after.length); index++) {
+    const previous = before[index]
+    const next = after[index]
+    const hookPath = `${path}[${index}]`
+    if (!previous || !next) {
+      changes.push({ kind: previous ? 'removed' : 'added', path: hookPath, before: previous?.value, after: next?.value })
+      continue
+    }
+
+    diffValues(previous.value, next.value, `${hookPath}.value`, changes)
+    diffHooks(previous.subHooks || [], next.subHooks || [], `${hookPath}.subHooks`, changes)
+  }
+}
+
+/**
+ * Walks plain objects and arrays on both sides, anything else that differs
+ * (primitives, envelopes, an object replaced by an array) is one change
+ */
+function diffValues(before: DehydratedValue | undefined, after: DehydratedValue | undefined, path: string, changes: SnapshotChange[]) {
+  if (isSameValue(before, after)) {
+    return
+  }
+
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    for (const key of keys) {
+      const childPath = `${path}${formatKey(key, Array.isArray(after))}`
+      const hasBefore = Object.prototype.hasOwnProperty.call(before, key)
+      const hasAfter = Object.prototype.hasOwnProperty.call(after, key)
+      if (hasBefore && hasAfter) {
+        diffValues(before[key], after[key], childPath, changes)
+      }
+      else {
+        changes.push({ kind: hasBefore ? 'removed' : 'added', path: childPath, before: before[key], after: after[key] })
+      }
+    }
+    return
+  }
+
+  changes.push({ kind: 'changed', path, before, after })
+}
+
+/**
+ * Labels children by name, keyed ones with their key and unkeyed ones that
+ * share a name with their position among them, e.g. `Item[key=a]`, `Row[1]`
+ */
+function labelChildren(children: ReactComponent[]): Map<string, ReactComponent> {
+  const counts = new Map<string, number>()
+  for (const child of children) {
+    if (child.key === undefined) {
+      counts.set(getComponentName(child), (counts.get(getComponentName(child)) || 0) + 1)
+    }
+  }
+
+  const labeled = new Map<string, ReactComponent>()
+  const positions = new Map<string, number>()
+  for (const child of children) {
+    const name = getComponentName(child)
+    let label = name
+    if (child.key !== undefined) {
+      label = `${name}[key=${child.key}]`
+    }
+    else if ((counts.get(name) || 0) > 1) {
+      const position = positions.get(name) || 0
+      positions.set(name, position + 1)
+      label = `${name}[${position}]`
+    }
+    labeled.set(label, child)
+  }
+  return labeled
+}
+
+function getComponentName(component: ReactComponent): string {
+  return component.displayName || component.name
+}
+
+function formatKey(key: string, isIndex: boolean): string {
+  if (isIndex) {
+    return `[${key}]`
+  }
+  return /^[a-z_$][\w$]*$/i.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`
+}
+
+/**
+ * Plain objects and arrays, the latter walked through their index keys too
+ */
+function isContainer(value: unknown): value is Record<string, DehydratedValue> {
+  return !!value && typeof value === 'object' && !isDehydratedEnvelope(value)
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return Object.is(a, b) || JSON.stringify(a) === JSON.stringify(b)
+}
@@ -0,0 +1,143 @@
+/**
+ * Component definition locations
+ *
+ * React 19 dropped `_debugSource`, so the plugin records where components are
+ * defined itself. Every `.jsx`/`.tsx` module gets a call appended that
+ * registers its top-level components with the DevTools hook, keyed by the
+ * function (or `memo`/`forwardRef` wrapper) React renders. Positions are read
+ * from the compiled module and traced back to the original file through the
+ * source map of the transforms before this one.
+ */
+
+import type { SourceMapInput } from '@jridgewell/trace-mapping'
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping'
+import type { CallExpression, Expression, Program } from 'estree'
+import { parseAst } from 'vite'
+import type { ComponentSource } from './types'
+
+export const COMPONENT_MODULE_RE = /\.[jt]sx$/
+
+// Wrappers that return a component, called as is or through `React.`
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef', 'lazy'])
+
+interface ComponentDefinition {
+  name: string
+  start: number
+}
+
+/**
+ * Appends the registration of the module's components, or returns null when
+ * it doesn't define any. Only appends, so the module's own source map stays
+ * valid.
+ */
+export function injectComponentSources(code: string, fileName: string, map: SourceMapInput | null): string | null {
+  let program: Program
+  try {
+    program = parseAst(code)
+  }
+  catch {
+    return null
+  }
+
+  const definitions = findComponentDefinitions(program)
+  if (definitions.length === 0) {
+    return null
+  }
+
+  const tracer = map ? new TraceMap(map) : null
+  const lineOffsets = getLineOffsets(code)
+  const registrations = definitions.map(({ name, start }) => {
+    const source = getOriginalLocation(tracer, lineOffsets, start, fileName)
+    return `  hook.registerComponentSource(${name}, ${JSON.stringify(source)})`
+  })
+
+  return [
+    code,
+    ';(function (hook) {',
+    '  if (!hook || !hook.registerComponentSource) return',
+    ...registrations,
+    '})(window.__REACT_DEVTOOLS_GLOBAL_HOOK__)',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Top-level function, class and `const X = memo(...)` style definitions with
+ * a capitalized name, the ones JSX can render
+ */
+function findComponentDefinitions(program: Program): ComponentDefinition[] {
+  const definitions: ComponentDefinition[] = []
+
+  for (const statement of program.body) {
+    const node = statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+      ? statement.declaration
+      : statement
+
+    if ((node?.type === 'FunctionDeclaration' || node?.type === 'ClassDeclaration') && node.id && isComponentName(node.id.name)) {
+      definitions.push({ name: node.id.name, start: node.start })
+    }
+    else if (node?.type === 'VariableDeclaration') {
+      for (const declarator of node.declarations) {
+        if (declarator.id.type === 'Identifier' && isComponentName(declarator.id.name) && isComponentInit(declarator.init)) {
+          definitions.push({ name: declarator.id.name, start: declarator.start })
+        }
+      }
+    }
+  }
+
+  return definitions
+}
+
+function isComponentName(name: string | undefined): boolean {
+  return !!name && /^[A-Z]/.test(name)
+}
+
+function isComponentInit(init: Expression | null | undefined): boolean {
+  return isFunctionOrClass(init) || (init?.type === 'CallExpression' && isComponentWrapper(init))
+}
+
+/**
+ * `memo()`, `forwardRef()` and `lazy()`, or any other call given the component
+ * inline. Calls like `createContext()` or `createClient()` return something
+ * else that happens to be capitalized.
+ */
+function isComponentWrapper(call: CallExpression): boolean {
+  const callee = call.callee.type === 'MemberExpression' ? call.callee.property : call.callee
+  if (callee.type === 'Identifier' && COMPONENT_WRAPPERS.has(callee.name)) {
+    return true
+  }
+  const [first] = call.arguments
+  return first?.type !== 'SpreadElement' && isFunctionOrClass(first)
+}
+
+function isFunctionOrClass(node: Expression | null | undefined): boolean {
+  return node?.type === 'ArrowFunctionExpression'
+    || node?.type === 'FunctionExpression'
+    || node?.type === 'ClassExpression'
+}
+
+/**
+ * Maps an offset in the compiled code to a 1-based location in the original
+ * file, keeping the compiled position when the map doesn't cover it
+ */
+function getOriginalLocation(tracer: TraceMap | null, lineOffsets: number[], offset: number, fileName: string): ComponentSource {
+  let line = lineOffsets.length
+  while (lineOffsets[line - 1] > offset) {
+    line--
+  }
+  const column = offset - lineOffsets[line - 1]
+
+  const original = tracer ? originalPositionFor(tracer, { line, column }) : null
+  if (original?.line != null) {
+    return { fileName, lineNumber: original.line, columnNumber: original.column + 1 }
+  }
+  return { fileName, lineNumber: line, columnNumber: column + 1 }
+}
+
+function getLineOffsets(code: string): number[] {
+  const offsets = [0]
+  for (let index = code.indexOf('\n'); index !== -1; index = code.indexOf('\n', index + 1)) {
+    offsets.push(index + 1)
+  }
+  return offsets
+}
@@ -0,0 +1,88 @@
+/**
+ * Console globals
+ *
+ * As in the browser extension, the selected component is exposed to the
+ * page's console as `$r`, with the last five selections as `$r0` (latest) to
+ * `$r4`, and inspected values can be stored as `temp1`, `temp2`... The `$r`
+ * variables are getters, so they follow the component as it renders and turn
+ * undefined once it unmounts.
+ */
+
+import { getInPath } from './dehydrate'
+import { getFiberById } from './fiber-registry'
+import { WorkTag } from './fiber-tags'
+import { createComponent, inspectComponent } from './react-detector'
+
+const RECENT_SELECTIONS = 5
+
+// Latest first
+const recentSelections: number[] = []
+let installed = false
+
+/**
+ * Points `$r` at a newly selected component, the previous ones shift down to
+ * `$r1`..`$r4`
+ */
+export function setSelectedComponentGlobal(componentId: number | undefined) {
+  if (componentId === undefined || recentSelections[0] === componentId) {
+    return
+  }
+
+  const index = recentSelections.indexOf(componentId)
+  if (index !== -1) {
+    recentSelections.splice(index, 1)
+  }
+  recentSelections.unshift(componentId)
+  recentSelections.length = Math.min(recentSelections.length, RECENT_SELECTIONS)
+
+  if (!installed) {
+    installed = true
+    defineGlobal('$r', () => getConsoleValue(recentSelections[0]))
+    for (let position = 0; position < RECENT_SELECTIONS; position++) {
+      defineGlobal(`$r${position}`, () => getConsoleValue(recentSelections[position]))
+    }
+  }
+}
+
+/**
+ * Assigns the value at a path inside a mounted component to the next free
+ * `tempN` global and logs it. Returns why it couldn't, or null.
+ */
+export function storeAsGlobal(componentId: number, path: Array<string | number>): string | null {
+  const fiber = getFiberById(componentId)
+  if (!fiber) {
+    return 'the component is no longer mounted'
+  }
+
+  const value = getInPath(inspectComponent(fiber), path)
+  let index = 1
+  while (`temp${index}` in window) {
+    index++
+  }
+  const name = `temp${index}`
+  ;(window as unknown as Record<string, unknown>)[name] = value
+  // eslint-disable-next-line no-console
+  console.log(name, value)
+  return null
+}
+
+/**
+ * The instance of a class component, or the props, state and hooks of any
+ * other
+ */
+function getConsoleValue(componentId: number | undefined): unknown {
+  const fiber = componentId === undefined ? null : getFiberById(componentId)
+  if (!fiber) {
+    return undefined
+  }
+  if (fiber.tag === WorkTag.ClassComponent && fiber.stateNode) {
+    return fiber.stateNode
+  }
+
+  const { props, state, hooks } = createComponent(fiber)
+  return { props, state, hooks }
+}
+
+function defineGlobal(name: string, get: () => unknown) {
+  Object.defineProperty(window, name, { get, configurable: true })
+}
@@ -0,0 +1,188 @@
+/**
+ * Console patching
+ *
+ * `console.error` and `console.warn` are wrapped so that output logged while
+ * React renders or runs effects for a component ends with that component's
+ * stack, built from the fiber's `return` chain and the source locations the
+ * plugin injects. The same entries are handed to the panel's Console tab.
+ *
+ * StrictMode renders components and runs effects twice, React tells the hook
+ * through `setStrictMode` while it does the second pass. Like the official
+ * DevTools, everything logged meanwhile is printed dimmed, or left out when
+ * the setting to hide those logs is on, and never reaches the Console tab.
+ */
+
+import { getFiberId } from './fiber-registry'
+import { WorkTag, getFiberName } from './fiber-tags'
+import { getComponentSource, getCurrentFiber, getReactDevToolsHook, isComponentFiber } from './react-detector'
+import type { ComponentStackFrame, ConsoleEntry, FiberNode } from './types'
+
+type PatchedLevel = ConsoleEntry['level']
+type StrictModeLevel = 'debug' | 'error' | 'info' | 'log' | 'trace' | 'warn'
+
+const PATCHED_LEVELS: PatchedLevel[] = ['error', 'warn']
+// Methods taking a format string, so their output can be restyled
+const STRICT_MODE_LEVELS: StrictModeLevel[] = ['debug', 'error', 'info', 'log', 'trace', 'warn']
+// Same color the official DevTools dim StrictMode logs with
+const DIMMED_STYLE = 'color: rgba(124, 124, 124, 0.5)'
+// Longest message kept for the panel
+const MAX_MESSAGE_LENGTH = 2000
+
+let patched = false
+let inStrictModePass = false
+let hideLogsInStrictMode = false
+
+/**
+ * Wraps the console methods once, `onEntry` receives every message that was
+ * attributed to a component
+ */
+export function patchConsole(onEntry: (entry: ConsoleEntry) => void) {
+  if (patched) {
+    return
+  }
+  patched = true
+  trackStrictMode()
+
+  for (const level of STRICT_MODE_LEVELS) {
+    // eslint-disable-next-line no-console
+    const original = console[level]
+    // eslint-disable-next-line no-console
+    console[level] = function (...args: unknown[]) {
+      if (inStrictModePass) {
+        if (!hideLogsInStrictMode) {
+          original.apply(console, dimConsoleArgs(args))
+        }
+        return
+      }
+      if (!(PATCHED_LEVELS as string[]).includes(level)) {
+        original.apply(console, args)
+        return
+      }
+
+      const fiber = getCurrentFiber()
+      const componentStack = fiber ? getComponentStack(fiber) : []
+      if (componentStack.length === 0) {
+        original.apply(console, args)
+        return
+      }
+
+      // React's own warnings may come with a stack already
+      original.apply(console, hasComponentStack(args) ? args : [...args, formatComponentStack(componentStack)])
+      onEntry({ level: level as PatchedLevel, message: formatConsoleArgs(args), timestamp: Date.now(), componentStack })
+    }
+  }
+}
+
+/**
+ * Whether output of the second StrictMode pass is left out rather than dimmed
+ */
+export function setHideConsoleLogsInStrictMode(hide: boolean) {
+  hideLogsInStrictMode = hide
+}
+
+/**
+ * Lets React report its StrictMode passes, it looks the method up on the hook
+ * every time so this works after React has loaded too
+ */
+function trackStrictMode() {
+  const hook = getReactDevToolsHook()
+  if (!hook) {
+    return
+  }
+
+  const originalSetStrictMode = hook.setStrictMode
+  hook.setStrictMode = function (rendererId, isStrictMode) {
+    originalSetStrictMode?.call(this, rendererId, isStrictMode)
+    inStrictModePass = isStrictMode
+  }
+}
+
+/**
+ * Restyles console arguments as dimmed, a format string keeps its
+ * substitutions
+ */
+export function dimConsoleArgs(args: unknown[]): unknown[] {
+  if (typeof args[0] === 'string') {
+    return [`%c${args[0]}`, DIMMED_STYLE, ...args.slice(1)]
+  }
+  return ['%c%o', DIMMED_STYLE, ...args]
+}
+
+/**
+ * Lists the components from a fiber up to its root
+ */
+export function getComponentStack(fiber: FiberNode): ComponentStackFrame[] {
+  const frames: ComponentStackFrame[] = []
+  for (let node: FiberNode | null = fiber; node; node = node.return) {
+    if (isComponentFiber(node) && node.tag !== WorkTag.HostRoot) {
+      frames.push({ id: getFiberId(node), name: getFiberName(node), source: getComponentSource(node) })
+    }
+  }
+  return frames
+}
+
+/**
+ * Formats frames the way React prints component stacks
+ */
+export function formatComponentStack(frames: ComponentStackFrame[]): string {
+  return frames.map(({ name, source }) => source
+    ? `\n    at ${name} (${source.fileName}:${source.lineNumber}:${source.columnNumber})`
+    : `\n    at ${name}`).join('')
+}
+
+/**
+ * Joins console arguments into one message, applying the format string's
+ * substitutions like the console does
+ */
+export function formatConsoleArgs(args: unknown[]): string {
+  const rest = [...args]
+  let message = ''
+  if (typeof rest[0] === 'string') {
+    message = (rest.shift() as string).replace(/%([sdifoOc%])/g, (match, type: string) => {
+      if (type === '%') {
+        return '%'
+      }
+      if (rest.length === 0) {
+        return match
+      }
+      const value = rest.shift()
+      switch (type) {
+        case 'c':
+          return ''
+        case 'd':
+        case 'i':
+          return String(Number.parseInt(String(value)))
+        case 'f':
+          return String(Number.parseFloat(String(value)))
+        default:
+          return formatConsoleArg(value)
+      }
+    })
+  }
+
+  message = [message, ...rest.map(formatConsoleArg)].filter(Boolean).join(' ')
+  return message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message
+}
+
+function formatConsoleArg(value: unknown): string {
+  if (typeof value === 'string') {
+    return value
+  }
+  if (value instanceof Error) {
+    return value.stack || `${value.name}: ${value.message}`
+  }
+  if (value && typeof value === 'object') {
+    try {
+      return JSON.stringify(value)
+    }
+    catch {
+      return Object.prototype.toString.call(value)
+    }
+  }
+  return String(value)
+}
+
+function hasComponentStack(args: unknown[]): boolean {
+  const last = args[args.length - 1]
+  return typeof last === 'string' && /\n {4}(?:in|at) \S/.test(last)
+}
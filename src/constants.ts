@@ -0,0 +1,19 @@
+/**
+ * Constants shared between the plugin and the browser client
+ */
+
+/**
+ * URL the injected module script loads the DevTools client from
+ */
+export const CLIENT_PATH = '/__react-devtools/client.js'
+
+/**
+ * Custom HMR event carrying DevTools messages in both directions
+ */
+export const DEVTOOLS_EVENT = 'react-devtools:message'
+
+/**
+ * Route serving the dev server's latest profiling session as a Chrome trace
+ * download
+ */
+export const PROFILE_API_PATH = '/__react-devtools/api/profile.json'
@@ -0,0 +1,199 @@
+/**
+ * Dehydration of props, state and hook values for transport
+ *
+ * Values are copied into JSON-safe structures up to a depth limit. Anything
+ * JSON can't carry (functions, Symbols, Maps, DOM nodes, React elements,
+ * circular references...) or that lies past the limit is replaced with a
+ * typed envelope the panel can render, and inspectable envelopes can be
+ * fetched in full later with INSPECT_ELEMENT.
+ */
+
+import type { DehydratedEnvelope, DehydratedValue } from './types'
+
+/**
+ * How many levels of nested objects are copied before collapsing into envelopes
+ */
+export const DEFAULT_DEHYDRATE_DEPTH = 2
+
+const REACT_ELEMENT_TYPES = new Set([
+  Symbol.for('react.element'),
+  Symbol.for('react.transitional.element'),
+])
+
+/**
+ * Converts a value into its transport form
+ */
+export function dehydrate(value: unknown, maxDepth = DEFAULT_DEHYDRATE_DEPTH): DehydratedValue {
+  return dehydrateValue(value, 0, maxDepth, new Set())
+}
+
+/**
+ * Checks whether a transported value is an envelope rather than plain data
+ */
+export function isDehydratedEnvelope(value: unknown): value is DehydratedEnvelope {
+  return !!value && typeof value === 'object' && (value as DehydratedEnvelope).__dehydrated === true
+}
+
+/**
+ * Reads a nested value along a path as produced by `dehydrate`: Map entries
+ * are `[key, value]` pairs and Sets are indexed in iteration order
+ */
+export function getInPath(value: unknown, path: Array<string | number>): unknown {
+  let current = value
+  for (const key of path) {
+    if (current === null || current === undefined) {
+      return undefined
+    }
+    if (current instanceof Map) {
+      current = Array.from(current.entries())[Number(key)]
+    }
+    else if (current instanceof Set) {
+      current = Array.from(current)[Number(key)]
+    }
+    else {
+      current = (current as Record<string | number, unknown>)[key]
+    }
+  }
+  return current
+}
+
+/**
+ * Replaces the value at a path inside already dehydrated data with a freshly
+ * inspected one, stepping through Map and Set envelopes via their entries
+ */
+export function setInDehydrated(target: unknown, path: Array<string | number>, value: DehydratedValue): boolean {
+  let current = target
+  for (let index = 0; index < path.length; index++) {
+    if (isDehydratedEnvelope(current)) {
+      current = current.entries
+    }
+    if (!current || typeof current !== 'object') {
+      return false
+    }
+    const container = current as Record<string | number, unknown>
+    if (index === path.length - 1) {
+      container[path[index]] = value
+      return true
+    }
+    current = container[path[index]]
+  }
+  return false
+}
+
+function envelope(type: DehydratedEnvelope['type'], name: string, extra: Partial<DehydratedEnvelope> = {}): DehydratedEnvelope {
+  return { __dehydrated: true, type, name, inspectable: false, ...extra }
+}
+
+function dehydrateValue(value: unknown, depth: number, maxDepth: number, ancestors: Set<object>): DehydratedValue {
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return value
+    case 'number':
+      return Number.isFinite(value) ? value : envelope('number', String(value))
+    case 'undefined':
+      return envelope('undefined', 'undefined')
+    case 'bigint':
+      return envelope('bigint', `${value}n`)
+    case 'symbol':
+      return envelope('symbol', value.toString())
+    case 'function':
+      return envelope('function', value.name || 'anonymous')
+  }
+
+  if (value === null) {
+    return null
+  }
+
+  const object = value as object
+  if (ancestors.has(object)) {
+    return envelope('circular', '[Circular]')
+  }
+
+  const element = object as { $$typeof?: symbol, type?: string | { displayName?: string, name?: string } | null, key?: string | null }
+  if (element.$$typeof && REACT_ELEMENT_TYPES.has(element.$$typeof)) {
+    const type = element.type
+    const typeName = typeof type === 'string' ? type : type?.displayName || type?.name || 'Unknown'
+    return envelope('react_element', `<${typeName} />`, { preview: element.key != null ? `key=${element.key}` : undefined })
+  }
+
+  const node = object as Partial<Element>
+  if (typeof node.nodeType === 'number' && typeof node.nodeName === 'string') {
+    const id = node.id ? `#${node.id}` : ''
+    return envelope('html_element', node.nodeType === 1 ? `<${node.nodeName.toLowerCase()}${id}>` : node.nodeName)
+  }
+
+  if (object instanceof Date) {
+    return envelope('date', Number.isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString())
+  }
+  if (object instanceof RegExp) {
+    return envelope('regexp', String(object))
+  }
+  if (object instanceof Error) {
+    return envelope('error', `${object.name}: ${object.message}`, { preview: object.stack })
+  }
+  if (object instanceof ArrayBuffer) {
+    return envelope('array_buffer', `ArrayBuffer(${object.byteLength})`, { size: object.byteLength })
+  }
+  if (ArrayBuffer.isView(object)) {
+    // DataView has neither a length nor slice()
+    const view = object as ArrayBufferView & { length?: number, slice?: (start: number, end: number) => ArrayLike<unknown> }
+    const length = view.length ?? view.byteLength
+    return envelope('typed_array', `${view.constructor.name}(${length})`, {
+      size: length,
+      preview: Array.from(view.slice?.(0, 10) ?? []).join(', '),
+    })
+  }
+
+  const isMap = object instanceof Map
+  const isSet = object instanceof Set
+  const isArray = Array.isArray(object)
+  const size = isMap || isSet ? object.size : isArray ? object.length : Object.keys(object).length
+  const constructorName = object.constructor?.name
+  const name = isMap
+    ? `Map(${size})`
+    : isSet
+      ? `Set(${size})`
+      : isArray
+        ? `Array(${size})`
+        : constructorName && constructorName !== 'Object' ? constructorName : 'Object'
+
+  const type = isMap ? 'map' : isSet ? 'set' : isArray ? 'array' : 'object'
+  if (depth >= maxDepth) {
+    return envelope(type, name, { size, inspectable: size > 0 })
+  }
+
+  ancestors.add(object)
+  try {
+    if (isMap) {
+      const entries = Array.from(object as Map<unknown, unknown>, ([key, entry]) => [
+        dehydrateValue(key, depth + 1, maxDepth, ancestors),
+        dehydrateValue(entry, depth + 1, maxDepth, ancestors),
+      ])
+      return envelope(type, name, { size, entries, inspectable: size > 0 })
+    }
+    if (isSet) {
+      const entries = Array.from(object as Set<unknown>, entry => dehydrateValue(entry, depth + 1, maxDepth, ancestors))
+      return envelope(type, name, { size, entries, inspectable: size > 0 })
+    }
+    if (isArray) {
+      return (object as unknown[]).map(item => dehydrateValue(item, depth + 1, maxDepth, ancestors))
+    }
+
+    const result: Record<string, DehydratedValue> = {}
+    for (const key of Object.keys(object)) {
+      let item: unknown
+      try {
+        item = (object as Record<string, unknown>)[key]
+      }
+      catch (error) {
+        item = error
+      }
+      result[key] = dehydrateValue(item, depth + 1, maxDepth, ancestors)
+    }
+    return result
+  }
+  finally {
+    ancestors.delete(object)
+  }
+}
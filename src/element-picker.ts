@@ -0,0 +1,177 @@
+/**
+ * Element picker
+ *
+ * Goes from the page to the tree: while the picker is active, hovering an
+ * element outlines it with the name of the component that rendered it and
+ * its size, and clicking selects that component. Pointer events are swallowed
+ * in the capture phase so the app doesn't react to the picking click.
+ */
+
+import { getFiberId } from './fiber-registry'
+import { formatDisplayName, getFiberName, getWrapperBadges } from './fiber-tags'
+import { getComponentFiberForNode } from './react-detector'
+
+export interface ElementPickerOptions {
+  /**
+   * Elements that belong to DevTools itself and can't be picked
+   */
+  ignore: (element: Element) => boolean
+  /**
+   * Called with the ID of the component that rendered the clicked element
+   */
+  onPick: (componentId: number) => void
+  /**
+   * Called whenever the picker stops, picked or cancelled
+   */
+  onStop?: () => void
+}
+
+interface PickerState {
+  options: ElementPickerOptions
+  overlay: HTMLElement
+  label: HTMLElement
+}
+
+// Events the app must not see while picking
+const BLOCKED_EVENTS = ['pointerdown', 'pointerup', 'mousedown', 'mouseup', 'dblclick', 'contextmenu'] as const
+
+let picker: PickerState | null = null
+
+/**
+ * Starts picking, until an element is clicked or Escape is pressed
+ */
+export function startElementPicker(options: ElementPickerOptions) {
+  if (picker) {
+    return
+  }
+
+  const { overlay, label } = createOverlay()
+  document.body.appendChild(overlay)
+  picker = { options, overlay, label }
+
+  window.addEventListener('mousemove', handleMouseMove, true)
+  window.addEventListener('click', handleClick, true)
+  window.addEventListener('keydown', handleKeyDown, true)
+  BLOCKED_EVENTS.forEach(type => window.addEventListener(type, blockEvent, true))
+}
+
+/**
+ * Stops picking and removes the overlay
+ */
+export function stopElementPicker() {
+  if (!picker) {
+    return
+  }
+
+  const { options, overlay } = picker
+  picker = null
+  overlay.remove()
+
+  window.removeEventListener('mousemove', handleMouseMove, true)
+  window.removeEventListener('click', handleClick, true)
+  window.removeEventListener('keydown', handleKeyDown, true)
+  BLOCKED_EVENTS.forEach(type => window.removeEventListener(type, blockEvent, true))
+
+  options.onStop?.()
+}
+
+export function isElementPickerActive(): boolean {
+  return picker !== null
+}
+
+function handleMouseMove(event: MouseEvent) {
+  if (!picker) {
+    return
+  }
+
+  const target = getPickableTarget(event)
+  const fiber = target && getComponentFiberForNode(target)
+  if (!target || !fiber) {
+    picker.overlay.style.display = 'none'
+    return
+  }
+
+  const rect = target.getBoundingClientRect()
+  const { overlay, label } = picker
+  overlay.style.display = 'block'
+  overlay.style.top = `${rect.top}px`
+  overlay.style.left = `${rect.left}px`
+  overlay.style.width = `${rect.width}px`
+  overlay.style.height = `${rect.height}px`
+
+  label.textContent = `${formatDisplayName(getFiberName(fiber), getWrapperBadges(fiber))}  ${Math.round(rect.width)} × ${Math.round(rect.height)}`
+  // Keep the label inside the viewport for elements at the top of the page
+  label.style.top = rect.top > 24 ? '-24px' : `${rect.height + 4}px`
+}
+
+function handleClick(event: MouseEvent) {
+  const target = getPickableTarget(event)
+  if (!target || !picker) {
+    return
+  }
+
+  event.preventDefault()
+  event.stopPropagation()
+
+  const fiber = getComponentFiberForNode(target)
+  const { onPick } = picker.options
+  stopElementPicker()
+  if (fiber) {
+    onPick(getFiberId(fiber))
+  }
+}
+
+function handleKeyDown(event: KeyboardEvent) {
+  if (event.key === 'Escape') {
+    event.preventDefault()
+    event.stopPropagation()
+    stopElementPicker()
+  }
+}
+
+function blockEvent(event: Event) {
+  if (getPickableTarget(event)) {
+    event.preventDefault()
+    event.stopPropagation()
+  }
+}
+
+/**
+ * The page element an event targets, or null for DevTools' own elements
+ */
+function getPickableTarget(event: Event): Element | null {
+  const target = event.target
+  if (!picker || !(target instanceof Element) || picker.options.ignore(target)) {
+    return null
+  }
+  return target
+}
+
+function createOverlay() {
+  const overlay = document.createElement('div')
+  overlay.id = 'react-devtools-picker-overlay'
+  overlay.style.cssText = `
+    position: fixed;
+    display: none;
+    pointer-events: none;
+    z-index: 999997;
+    background: rgba(97, 218, 251, 0.25);
+    outline: 1px solid #61dafb;
+  `
+
+  const label = document.createElement('div')
+  label.style.cssText = `
+    position: absolute;
+    left: 0;
+    padding: 2px 6px;
+    white-space: nowrap;
+    background: #1e1e1e;
+    color: #61dafb;
+    font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+    font-size: 11px;
+    border-radius: 2px;
+  `
+  overlay.appendChild(label)
+
+  return { overlay, label }
+}
@@ -0,0 +1,81 @@
+/**
+ * Persistent component IDs keyed on fiber identity
+ *
+ * React keeps two fibers per mounted instance (the current one and its
+ * `alternate`) and swaps them on every commit, so both are mapped to the same
+ * numeric ID. IDs live until React reports the fiber through
+ * `onCommitFiberUnmount`.
+ */
+
+import type { FiberNode } from './types'
+
+const fiberIds = new WeakMap<FiberNode, number>()
+const fibersById = new Map<number, FiberNode>()
+let nextFiberId = 1
+
+/**
+ * Gets the ID of a mounted instance, assigning one the first time it is seen
+ */
+export function getFiberId(fiber: FiberNode): number {
+  let id = fiberIds.get(fiber)
+  if (id === undefined && fiber.alternate) {
+    id = fiberIds.get(fiber.alternate)
+  }
+  if (id === undefined) {
+    id = nextFiberId++
+  }
+
+  fiberIds.set(fiber, id)
+  if (fiber.alternate) {
+    fiberIds.set(fiber.alternate, id)
+  }
+  fibersById.set(id, fiber)
+
+  return id
+}
+
+/**
+ * Gets the committed fiber for an ID, or null once it has unmounted
+ */
+export function getFiberById(id: number): FiberNode | null {
+  const fiber = fibersById.get(id)
+  if (!fiber) {
+    return null
+  }
+
+  return fiber.alternate && !isCurrentFiber(fiber) ? fiber.alternate : fiber
+}
+
+/**
+ * Releases the ID of an unmounted instance
+ */
+export function releaseFiberId(fiber: FiberNode) {
+  const id = fiberIds.get(fiber) ?? (fiber.alternate ? fiberIds.get(fiber.alternate) : undefined)
+  if (id === undefined) {
+    return
+  }
+
+  fiberIds.delete(fiber)
+  if (fiber.alternate) {
+    fiberIds.delete(fiber.alternate)
+  }
+
+  const registered = fibersById.get(id)
+  if (registered === fiber || registered === fiber.alternate) {
+    fibersById.delete(id)
+  }
+}
+
+/**
+ * Checks whether a fiber belongs to the committed tree rather than the
+ * work-in-progress one, by walking up to its HostRoot
+ */
+function isCurrentFiber(fiber: FiberNode): boolean {
+  let node = fiber
+  while (node.return) {
+    node = node.return
+  }
+
+  // A HostRoot's stateNode is the FiberRoot, which points at the committed HostRoot
+  return node.stateNode?.current === node
+}
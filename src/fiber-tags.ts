@@ -0,0 +1,284 @@
+/**
+ * Fiber classification by work tag
+ *
+ * React marks every fiber with a numeric `tag` telling which kind of work it
+ * does. The values below have been stable since React 16.6, with Offscreen
+ * and Activity added later. Element type symbols fill in what the tag alone
+ * can't tell, like a resolved `React.lazy` component.
+ */
+
+import type { FiberNode, ReactComponent, WrapperBadge } from './types'
+
+export const WorkTag = {
+  FunctionComponent: 0,
+  ClassComponent: 1,
+  IndeterminateComponent: 2,
+  HostRoot: 3,
+  HostPortal: 4,
+  HostComponent: 5,
+  HostText: 6,
+  Fragment: 7,
+  Mode: 8,
+  ContextConsumer: 9,
+  ContextProvider: 10,
+  ForwardRef: 11,
+  Profiler: 12,
+  SuspenseComponent: 13,
+  MemoComponent: 14,
+  SimpleMemoComponent: 15,
+  LazyComponent: 16,
+  IncompleteClassComponent: 17,
+  SuspenseListComponent: 19,
+  OffscreenComponent: 22,
+  HostHoistable: 26,
+  HostSingleton: 27,
+  IncompleteFunctionComponent: 28,
+  ActivityComponent: 31,
+} as const
+
+// The fiber flag React sets when a component's render function actually ran
+const PerformedWork = 0b1
+
+const REACT_LAZY_TYPE = Symbol.for('react.lazy')
+const REACT_MEMO_TYPE = Symbol.for('react.memo')
+const REACT_FORWARD_REF_TYPE = Symbol.for('react.forward_ref')
+const REACT_PROVIDER_TYPE = Symbol.for('react.provider')
+const REACT_CONSUMER_TYPE = Symbol.for('react.consumer')
+const REACT_OFFSCREEN_TYPE = Symbol.for('react.offscreen')
+const REACT_ACTIVITY_TYPE = Symbol.for('react.activity')
+
+/**
+ * Classifies a fiber, or returns null for fibers that aren't shown in the
+ * tree (host elements, text, fragments, StrictMode and the outer fiber of a
+ * `React.memo` whose inner component carries the badge)
+ */
+export function getFiberKind(fiber: FiberNode): ReactComponent['type'] | null {
+  switch (fiber.tag) {
+    case WorkTag.HostRoot:
+      return 'root'
+
+    case WorkTag.ClassComponent:
+    case WorkTag.IncompleteClassComponent:
+      return 'class'
+
+    case WorkTag.FunctionComponent:
+    case WorkTag.IndeterminateComponent:
+    case WorkTag.IncompleteFunctionComponent:
+      return isMemoChild(fiber) ? 'memo' : 'function'
+
+    case WorkTag.SimpleMemoComponent:
+      return 'memo'
+
+    case WorkTag.ForwardRef:
+      return isMemoChild(fiber) ? 'memo' : 'forwardRef'
+
+    case WorkTag.LazyComponent:
+      return 'lazy'
+
+    case WorkTag.SuspenseComponent:
+    case WorkTag.SuspenseListComponent:
+      return 'suspense'
+
+    case WorkTag.ContextProvider:
+      return 'provider'
+
+    case WorkTag.ContextConsumer:
+      return 'consumer'
+
+    case WorkTag.HostPortal:
+      return 'portal'
+
+    case WorkTag.Profiler:
+      return 'profiler'
+
+    case WorkTag.ActivityComponent:
+      return 'activity'
+
+    case WorkTag.OffscreenComponent:
+      // Suspense and Activity render an Offscreen fiber of their own, only a
+      // standalone one comes from user code
+      return isActivityType(fiber.elementType) && !isOffscreenOwner(fiber.return) ? 'activity' : null
+  }
+
+  return null
+}
+
+/**
+ * Gets the wrappers around a component, outermost first
+ */
+export function getWrapperBadges(fiber: FiberNode): WrapperBadge[] {
+  const badges: WrapperBadge[] = []
+
+  if (isMemoChild(fiber)) {
+    if (fiber.return!.elementType?.$$typeof === REACT_LAZY_TYPE) {
+      badges.push('Lazy')
+    }
+    badges.push('Memo')
+  }
+  if (fiber.elementType?.$$typeof === REACT_LAZY_TYPE) {
+    badges.push('Lazy')
+  }
+
+  switch (fiber.tag) {
+    case WorkTag.SimpleMemoComponent:
+      badges.push('Memo')
+      break
+    case WorkTag.ForwardRef:
+      badges.push('ForwardRef')
+      break
+  }
+
+  return badges
+}
+
+/**
+ * Gets the display name of a fiber's component, without wrapper badges
+ */
+export function getFiberName(fiber: FiberNode): string {
+  const type = fiber.type
+
+  switch (fiber.tag) {
+    case WorkTag.ForwardRef:
+      return type?.displayName || getFunctionName(type?.render)
+
+    case WorkTag.ContextProvider:
+      // React 19 renders the context itself as provider, older versions a
+      // `{ $$typeof: react.provider, _context }` object
+      return `${getContextName(type?.$$typeof === REACT_PROVIDER_TYPE ? type._context : type)}.Provider`
+
+    case WorkTag.ContextConsumer:
+      // React 19 consumers are `{ $$typeof: react.consumer, _context }`,
+      // older versions use the context itself
+      return `${getContextName(type?.$$typeof === REACT_CONSUMER_TYPE ? type._context : type)}.Consumer`
+
+    case WorkTag.SuspenseComponent:
+      return 'Suspense'
+
+    case WorkTag.SuspenseListComponent:
+      return 'SuspenseList'
+
+    case WorkTag.HostRoot:
+      return 'Root'
+
+    case WorkTag.HostPortal:
+      return 'Portal'
+
+    case WorkTag.Profiler:
+      return fiber.memoizedProps?.id ? `Profiler(${fiber.memoizedProps.id})` : 'Profiler'
+
+    case WorkTag.ActivityComponent:
+    case WorkTag.OffscreenComponent:
+      return 'Activity'
+
+    case WorkTag.LazyComponent:
+      return 'Lazy'
+  }
+
+  if (typeof type === 'function') {
+    return getFunctionName(type)
+  }
+  if (typeof type === 'string') {
+    return type
+  }
+  if (type?.$$typeof === REACT_MEMO_TYPE || type?.$$typeof === REACT_FORWARD_REF_TYPE) {
+    return type.displayName || getFunctionName(type.type || type.render)
+  }
+
+  return type?.displayName || 'Unknown'
+}
+
+/**
+ * Checks whether a fiber keeps its state in hooks
+ */
+export function isHookFiber(fiber: FiberNode): boolean {
+  return fiber.tag === WorkTag.FunctionComponent
+    || fiber.tag === WorkTag.IndeterminateComponent
+    || fiber.tag === WorkTag.IncompleteFunctionComponent
+    || fiber.tag === WorkTag.ForwardRef
+    || fiber.tag === WorkTag.SimpleMemoComponent
+}
+
+/**
+ * Checks whether a fiber is a component the app defined: a function, class,
+ * memo or forwardRef component rather than a built-in boundary
+ */
+export function isUserComponentFiber(fiber: FiberNode): boolean {
+  const kind = getFiberKind(fiber)
+  return kind === 'function' || kind === 'class' || kind === 'memo' || kind === 'forwardRef'
+}
+
+/**
+ * Checks whether a committed fiber rendered in the last commit: it mounted,
+ * or its render function ran instead of bailing out. Only meaningful for
+ * fibers React visited, see `didSubtreeRender`.
+ */
+export function didFiberRender(fiber: FiberNode): boolean {
+  const previous = fiber.alternate
+  if (!previous) {
+    return true
+  }
+  if (isUserComponentFiber(fiber)) {
+    return (fiber.flags & PerformedWork) === PerformedWork
+  }
+
+  // Built-ins like providers and Suspense don't flag their work, being handed
+  // something new is what makes them render
+  return fiber.memoizedProps !== previous.memoizedProps
+    || fiber.memoizedState !== previous.memoizedState
+    || fiber.ref !== previous.ref
+}
+
+/**
+ * Checks whether anything below a committed fiber rendered. React reuses the
+ * previous children outright when a whole subtree bailed out, and their flags
+ * are left over from an older commit.
+ */
+export function didSubtreeRender(fiber: FiberNode): boolean {
+  return !fiber.alternate || fiber.child !== fiber.alternate.child
+}
+
+/**
+ * Collects the user components that rendered in the last commit below a
+ * committed fiber, without walking into subtrees React skipped
+ */
+export function collectRenderedComponents(fiber: FiberNode, rendered: FiberNode[] = []): FiberNode[] {
+  if (isUserComponentFiber(fiber) && didFiberRender(fiber)) {
+    rendered.push(fiber)
+  }
+  if (didSubtreeRender(fiber)) {
+    for (let child = fiber.child; child; child = child.sibling) {
+      collectRenderedComponents(child, rendered)
+    }
+  }
+  return rendered
+}
+
+/**
+ * Composes the badges and name into a single label, e.g. `Memo(UserCard)`
+ */
+export function formatDisplayName(name: string, badges: WrapperBadge[]): string {
+  return badges.reduceRight((inner, badge) => `${badge}(${inner})`, name)
+}
+
+/**
+ * The inner component of a `React.memo` whose outer fiber isn't shown
+ */
+function isMemoChild(fiber: FiberNode): boolean {
+  return fiber.return?.tag === WorkTag.MemoComponent
+}
+
+function isActivityType(elementType: unknown): boolean {
+  return elementType === REACT_OFFSCREEN_TYPE || elementType === REACT_ACTIVITY_TYPE
+}
+
+function isOffscreenOwner(fiber: FiberNode | null): boolean {
+  return fiber?.tag === WorkTag.SuspenseComponent || fiber?.tag === WorkTag.ActivityComponent
+}
+
+function getFunctionName(fn: { displayName?: string, name?: string } | null | undefined): string {
+  return fn?.displayName || fn?.name || 'Anonymous'
+}
+
+function getContextName(context: { displayName?: string } | null | undefined): string {
+  return context?.displayName || 'Context'
+}
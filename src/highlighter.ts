@@ -0,0 +1,202 @@
+/**
+ * Component highlighter
+ *
+ * Outlines the DOM a component rendered while it's hovered in the tree. Each
+ * host element gets a box-model overlay like the browser's own inspector
+ * (margin, border, padding, content), so a component rendering into several
+ * places through portals lights up every region it owns. A label with the
+ * component's name and the size of the union of its boxes sits on top.
+ */
+
+import { getFiberById } from './fiber-registry'
+import { formatDisplayName, getFiberName, getWrapperBadges } from './fiber-tags'
+import { getHostNodes } from './react-detector'
+
+interface Box {
+  top: number
+  left: number
+  width: number
+  height: number
+}
+
+const BOX_COLORS = {
+  margin: 'rgba(246, 178, 107, 0.66)',
+  border: 'rgba(255, 229, 153, 0.66)',
+  padding: 'rgba(147, 196, 125, 0.55)',
+  content: 'rgba(111, 168, 220, 0.66)',
+}
+
+let overlay: HTMLElement | null = null
+let highlightedId: number | null = null
+
+/**
+ * Highlights the host nodes of a component, replacing any previous highlight
+ */
+export function highlightComponent(componentId: number) {
+  highlightedId = componentId
+  if (!drawHighlight()) {
+    clearHighlight()
+    return
+  }
+
+  window.addEventListener('scroll', redraw, true)
+  window.addEventListener('resize', redraw)
+}
+
+export function clearHighlight() {
+  highlightedId = null
+  overlay?.remove()
+  overlay = null
+
+  window.removeEventListener('scroll', redraw, true)
+  window.removeEventListener('resize', redraw)
+}
+
+function redraw() {
+  if (highlightedId !== null && !drawHighlight()) {
+    clearHighlight()
+  }
+}
+
+/**
+ * Draws the overlay for the highlighted component, returning false once it
+ * has nothing on screen
+ */
+function drawHighlight(): boolean {
+  const fiber = highlightedId !== null ? getFiberById(highlightedId) : null
+  if (!fiber) {
+    return false
+  }
+
+  const nodes = getHostNodes(fiber)
+  if (nodes.length === 0) {
+    return false
+  }
+
+  if (!overlay) {
+    overlay = document.createElement('div')
+    overlay.id = 'react-devtools-highlight'
+    overlay.style.cssText = 'position: fixed; inset: 0; pointer-events: none; z-index: 999996;'
+    document.body.appendChild(overlay)
+  }
+  overlay.innerHTML = ''
+
+  const borderBoxes: Box[] = []
+  for (const node of nodes) {
+    if (node instanceof Element) {
+      borderBoxes.push(drawBoxModel(overlay, node))
+    }
+    else {
+      // Text nodes have no box model, a range measures the text itself
+      const range = document.createRange()
+      range.selectNodeContents(node)
+      const box = toBox(range.getBoundingClientRect())
+      overlay.appendChild(createBox(box, BOX_COLORS.content))
+      borderBoxes.push(box)
+    }
+  }
+
+  overlay.appendChild(createLabel(formatDisplayName(getFiberName(fiber), getWrapperBadges(fiber)), unionBox(borderBoxes)))
+  return true
+}
+
+/**
+ * Draws the margin, border, padding and content areas of an element as
+ * nested boxes, each one covering the ring between it and the next, and
+ * returns its border box
+ */
+function drawBoxModel(parent: HTMLElement, element: Element): Box {
+  const borderBox = toBox(element.getBoundingClientRect())
+  const style = getComputedStyle(element)
+  const edges = (prefix: string, suffix = '') => ({
+    top: Number.parseFloat(style.getPropertyValue(`${prefix}-top${suffix}`)) || 0,
+    right: Number.parseFloat(style.getPropertyValue(`${prefix}-right${suffix}`)) || 0,
+    bottom: Number.parseFloat(style.getPropertyValue(`${prefix}-bottom${suffix}`)) || 0,
+    left: Number.parseFloat(style.getPropertyValue(`${prefix}-left${suffix}`)) || 0,
+  })
+
+  const marginBox = expandBox(borderBox, edges('margin'))
+  const paddingBox = shrinkBox(borderBox, edges('border', '-width'))
+  const contentBox = shrinkBox(paddingBox, edges('padding'))
+
+  parent.appendChild(createRing(marginBox, borderBox, BOX_COLORS.margin))
+  parent.appendChild(createRing(borderBox, paddingBox, BOX_COLORS.border))
+  parent.appendChild(createRing(paddingBox, contentBox, BOX_COLORS.padding))
+  parent.appendChild(createBox(contentBox, BOX_COLORS.content))
+
+  return borderBox
+}
+
+/**
+ * A box filled between its outer edge and an inner box, drawn with borders
+ * so the inner area stays see-through
+ */
+function createRing(outer: Box, inner: Box, color: string): HTMLElement {
+  const ring = createBox(outer, 'transparent')
+  ring.style.boxSizing = 'border-box'
+  ring.style.borderStyle = 'solid'
+  ring.style.borderColor = color
+  ring.style.borderWidth = [
+    inner.top - outer.top,
+    outer.left + outer.width - inner.left - inner.width,
+    outer.top + outer.height - inner.top - inner.height,
+    inner.left - outer.left,
+  ].map(width => `${Math.max(0, width)}px`).join(' ')
+  return ring
+}
+
+function createBox(box: Box, background: string): HTMLElement {
+  const element = document.createElement('div')
+  element.style.cssText = `
+    position: absolute;
+    top: ${box.top}px;
+    left: ${box.left}px;
+    width: ${Math.max(0, box.width)}px;
+    height: ${Math.max(0, box.height)}px;
+    background: ${background};
+  `
+  return element
+}
+
+function createLabel(name: string, box: Box): HTMLElement {
+  const label = document.createElement('div')
+  label.textContent = `${name}  ${Math.round(box.width)} × ${Math.round(box.height)}`
+  label.style.cssText = `
+    position: absolute;
+    left: ${Math.max(0, box.left)}px;
+    top: ${box.top > 24 ? box.top - 24 : box.top + box.height + 4}px;
+    padding: 2px 6px;
+    white-space: nowrap;
+    background: #1e1e1e;
+    color: #61dafb;
+    font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+    font-size: 11px;
+    border-radius: 2px;
+  `
+  return label
+}
+
+function toBox(rect: DOMRect): Box {
+  return { top: rect.top, left: rect.left, width: rect.width, height: rect.height }
+}
+
+function expandBox(box: Box, edges: { top: number, right: number, bottom: number, left: number }): Box {
+  return {
+    top: box.top - edges.top,
+    left: box.left - edges.left,
+    width: box.width + edges.left + edges.right,
+    height: box.height + edges.top + edges.bottom,
+  }
+}
+
+function shrinkBox(box: Box, edges: { top: number, right: number, bottom: number, left: number }): Box {
+  return expandBox(box, { top: -edges.top, right: -edges.right, bottom: -edges.bottom, left: -edges.left })
+}
+
+function unionBox(boxes: Box[]): Box {
+  const top = Math.min(...boxes.map(box => box.top))
+  const left = Math.min(...boxes.map(box => box.left))
+  const bottom = Math.max(...boxes.map(box => box.top + box.height))
+  const right = Math.max(...boxes.map(box => box.left + box.width))
+  return { top, left, width: right - left, height: bottom - top }
+}
@@ -0,0 +1,140 @@
+/**
+ * Hook variable names from source
+ *
+ * The panel knows where each hook was called, as a location in the module
+ * the browser ran. The dev server looks that module up in Vite's module graph,
+ * parses the transformed code it served and reads the variable the call is
+ * assigned to, `isEditing` for `const [isEditing, setIsEditing] = useState(false)`.
+ * Stack traces aren't source mapped, so the location points into the served
+ * code and that code is what gets searched, not the original file behind
+ * `transformResult.map`, which may be TypeScript or JSX `parseAst` can't read.
+ * Names therefore only resolve as long as the transforms keep variable names,
+ * which Vite's dev transforms do since they don't minify. A plugin that
+ * mangles names in development leaves hooks unnamed.
+ */
+
+import type { Expression, Node, Pattern, Program, Super, VariableDeclarator } from 'estree'
+import type { TransformResult, ViteDevServer } from 'vite'
+import { parseAst } from 'vite'
+import { toModuleUrl } from './source-navigation'
+import type { ComponentSource } from './types'
+
+interface ParsedModule {
+  program: Program
+  lineOffsets: number[]
+}
+
+// Parsed modules, dropped along with the transform result when the file changes
+const parsedModules = new WeakMap<TransformResult, ParsedModule | null>()
+
+/**
+ * Resolves the variable name of each hook call, null when the module isn't
+ * known to Vite or the result isn't assigned to a plain variable
+ */
+export async function resolveHookNames(
+  server: ViteDevServer,
+  sources: ComponentSource[],
+): Promise<Array<{ source: ComponentSource, name: string | null }>> {
+  const modules = new Map<string, Promise<ParsedModule | null>>()
+
+  return Promise.all(sources.map(async (source) => {
+    const url = toModuleUrl(source.fileName)
+    if (!modules.has(url)) {
+      modules.set(url, loadModule(server, url))
+    }
+
+    const parsed = await modules.get(url)!
+    return { source, name: parsed ? findHookName(parsed, source.lineNumber, source.columnNumber) : null }
+  }))
+}
+
+async function loadModule(server: ViteDevServer, url: string): Promise<ParsedModule | null> {
+  try {
+    const module = await server.moduleGraph.getModuleByUrl(url)
+    const result = module?.transformResult ?? await server.transformRequest(url)
+    if (!result) {
+      return null
+    }
+
+    if (!parsedModules.has(result)) {
+      parsedModules.set(result, parseModule(result.code))
+    }
+    return parsedModules.get(result)!
+  }
+  catch {
+    return null
+  }
+}
+
+function parseModule(code: string): ParsedModule | null {
+  try {
+    const lineOffsets = [0]
+    for (let index = code.indexOf('\n'); index !== -1; index = code.indexOf('\n', index + 1)) {
+      lineOffsets.push(index + 1)
+    }
+    return { program: parseAst(code), lineOffsets }
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Finds the call at a location and names the variable it initializes. V8
+ * reports the position of the callee, `useState` in both `useState()` and
+ * `React.useState()`.
+ */
+function findHookName(parsed: ParsedModule, lineNumber: number, columnNumber: number): string | null {
+  const lineOffset = parsed.lineOffsets[lineNumber - 1]
+  if (lineOffset === undefined) {
+    return null
+  }
+
+  const declarator = findDeclarator(parsed.program, lineOffset + columnNumber - 1)
+  return declarator ? getBindingName(declarator.id) : null
+}
+
+/**
+ * Walks down to the `const x = hook()` declarator whose call sits at the offset
+ */
+function findDeclarator(node: Node, offset: number): VariableDeclarator | null {
+  if (typeof node.type !== 'string' || offset < node.start || offset >= node.end) {
+    return null
+  }
+
+  if (node.type === 'VariableDeclarator' && node.init?.type === 'CallExpression' && getCalleeStart(node.init.callee) === offset) {
+    return node
+  }
+
+  for (const child of Object.values(node)) {
+    const children: unknown[] = Array.isArray(child) ? child : [child]
+    for (const item of children) {
+      if (item && typeof item === 'object') {
+        const found = findDeclarator(item as Node, offset)
+        if (found) {
+          return found
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+function getCalleeStart(callee: Expression | Super): number {
+  return callee.type === 'MemberExpression' ? callee.property.start : callee.start
+}
+
+/**
+ * `[isEditing, setIsEditing]` names the state after its first element, like
+ * React DevTools does. Object patterns don't have a single name.
+ */
+function getBindingName(id: Pattern): string | null {
+  if (id.type === 'Identifier') {
+    return id.name
+  }
+  if (id.type === 'ArrayPattern' && id.elements[0]?.type === 'Identifier') {
+    return id.elements[0].name
+  }
+  return null
+}
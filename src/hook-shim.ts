@@ -0,0 +1,71 @@
+/**
+ * DevTools global hook
+ *
+ * React looks for `__REACT_DEVTOOLS_GLOBAL_HOOK__` once, when it loads, so
+ * this script is inlined into the page ahead of any module. When the React
+ * DevTools browser extension already installed its own hook, that hook is
+ * kept and only extended: mounted roots are tracked per renderer on every
+ * commit either way, since the extension only does that while its panel is
+ * open, and the registry of component definitions is added to it.
+ */
+
+export const HOOK_SHIM_SCRIPT = `
+(function (hook) {
+  // Mounted FiberRoots per renderer ID, kept up to date on every commit
+  var fiberRoots = {};
+  var nextRendererId = 1;
+
+  if (!hook) {
+    hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = {
+      renderers: new Map(),
+      supportsFiber: true,
+      inject: function (renderer) {
+        var id = nextRendererId++;
+        this.renderers.set(id, renderer);
+        console.log('React DevTools: Renderer injected with ID', id);
+        return id;
+      }
+    };
+    console.log('React DevTools: Global hook initialized');
+  }
+
+  if (!hook.getFiberRoots) {
+    hook.getFiberRoots = function (rendererId) {
+      return fiberRoots[rendererId] || (fiberRoots[rendererId] = new Set());
+    };
+  }
+  // Where components are defined, registered by their modules
+  if (!hook.componentSources) {
+    hook.componentSources = new WeakMap();
+  }
+  if (!hook.registerComponentSource) {
+    hook.registerComponentSource = function (type, source) {
+      var componentSources = hook.componentSources;
+      // memo() and forwardRef() also render the function they wrap
+      while (type && (typeof type === 'function' || typeof type === 'object') && !componentSources.has(type)) {
+        componentSources.set(type, source);
+        type = type.render || type.type;
+      }
+    };
+  }
+  if (!hook.onCommitFiberUnmount) {
+    hook.onCommitFiberUnmount = function () {};
+  }
+
+  var onCommitFiberRoot = hook.onCommitFiberRoot;
+  hook.onCommitFiberRoot = function (rendererId, root) {
+    var roots = hook.getFiberRoots(rendererId);
+    var state = root.current && root.current.memoizedState;
+    // An unmounted root commits once more with no element left to render
+    if (state && state.element != null) {
+      roots.add(root);
+    }
+    else {
+      roots.delete(root);
+    }
+    if (onCommitFiberRoot) {
+      return onCommitFiberRoot.apply(this, arguments);
+    }
+  };
+})(window.__REACT_DEVTOOLS_GLOBAL_HOOK__);
+`
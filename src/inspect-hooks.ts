@@ -0,0 +1,450 @@
+/**
+ * Hook inspection through a shallow re-render
+ *
+ * A fiber's hook list only holds raw state nodes, with nothing saying which
+ * hook created them. Like React DevTools' `inspectHooks`, the component is
+ * called once more outside of React with a patched dispatcher. Each hook the
+ * component calls is answered from the matching state node and recorded with
+ * its call stack, and the stack frames between the component and the hook
+ * name the custom hooks it was called through.
+ */
+
+import { WorkTag } from './fiber-tags'
+import type { ComponentSource, DispatcherRef, EffectState, FiberNode, Hook, HookNode } from './types'
+
+type HookType = Hook['type']
+
+type RenderFunction = (props: unknown, secondArg: unknown) => unknown
+
+// The `memoizedState` of useMemo and useCallback
+type MemoizedValue = [value: unknown, deps: unknown[] | null]
+
+interface StackFrame {
+  functionName: string
+  location: string
+}
+
+interface HookCall {
+  type: HookType | 'debugValue'
+  // Index of the first state node the hook occupies, null for hooks without one
+  hookIndex: number | null
+  value: unknown
+  deps?: unknown[]
+  // Where the hook was called, in the component or the innermost custom hook
+  location: string
+  // Custom hooks the call went through, outermost first, each with the
+  // location it was called from
+  customHooks: StackFrame[]
+}
+
+interface InspectionState {
+  fiber: FiberNode
+  hookNode: HookNode | null
+  hookIndex: number
+  calls: HookCall[]
+  rootStackLength: number
+}
+
+// Frames above the custom hooks: the recording helper, the dispatcher method
+// and React's own `useState`-style export that calls into the dispatcher
+const DISPATCHER_FRAMES = 3
+
+const REACT_CONTEXT_TYPE = Symbol.for('react.context')
+const REACT_MEMO_CACHE_SENTINEL = Symbol.for('react.memo_cache_sentinel')
+
+// Hooks whose stack couldn't be parsed stop the shallow render
+const abortInspection = new Error('Hook inspection aborted')
+
+function noop() {}
+
+let inspection: InspectionState | null = null
+
+/**
+ * Answers hook calls from the fiber's state nodes. Hooks that occupy more
+ * than one node (useTransition, useSyncExternalStore, useActionState) skip
+ * the extra ones.
+ */
+const dispatcher = {
+  readContext(context: unknown) {
+    return readContextValue(context)
+  },
+  useContext(context: unknown) {
+    const value = readContextValue(context)
+    record('useContext', null, value)
+    return value
+  },
+  use(usable: { $$typeof?: symbol, status?: string, value?: unknown } | null) {
+    if (usable?.$$typeof === REACT_CONTEXT_TYPE) {
+      const value = readContextValue(usable)
+      record('use', null, value)
+      return value
+    }
+    if (usable?.status === 'fulfilled') {
+      record('use', null, usable.value)
+      return usable.value
+    }
+    // A pending or rejected promise would suspend or throw in React too
+    throw abortInspection
+  },
+  useState() {
+    const index = inspection!.hookIndex
+    const value = nextHookNode()?.memoizedState
+    record('useState', index, value)
+    return [value, noop]
+  },
+  useReducer() {
+    const index = inspection!.hookIndex
+    const value = nextHookNode()?.memoizedState
+    record('useReducer', index, value)
+    return [value, noop]
+  },
+  useRef() {
+    const index = inspection!.hookIndex
+    const ref = nextHookNode()?.memoizedState ?? { current: undefined }
+    record('useRef', index, ref)
+    return ref
+  },
+  useEffect(create: unknown) {
+    const index = inspection!.hookIndex
+    const effect = nextHookNode()?.memoizedState as EffectState | undefined
+    record('useEffect', index, create, effect?.deps)
+  },
+  useLayoutEffect(create: unknown) {
+    const index = inspection!.hookIndex
+    const effect = nextHookNode()?.memoizedState as EffectState | undefined
+    record('useLayoutEffect', index, create, effect?.deps)
+  },
+  useInsertionEffect(create: unknown) {
+    const index = inspection!.hookIndex
+    const effect = nextHookNode()?.memoizedState as EffectState | undefined
+    record('useInsertionEffect', index, create, effect?.deps)
+  },
+  useImperativeHandle(_ref: unknown, create: unknown) {
+    const index = inspection!.hookIndex
+    const effect = nextHookNode()?.memoizedState as EffectState | undefined
+    record('useImperativeHandle', index, create, effect?.deps)
+  },
+  useMemo(create: () => unknown) {
+    const index = inspection!.hookIndex
+    const memoized = nextHookNode()?.memoizedState as MemoizedValue | undefined
+    const value = memoized ? memoized[0] : create()
+    record('useMemo', index, value, memoized?.[1])
+    return value
+  },
+  useCallback(callback: unknown) {
+    const index = inspection!.hookIndex
+    const memoized = nextHookNode()?.memoizedState as MemoizedValue | undefined
+    const value = memoized ? memoized[0] : callback
+    record('useCallback', index, value, memoized?.[1])
+    return value
+  },
+  useId() {
+    const index = inspection!.hookIndex
+    const id = nextHookNode()?.memoizedState
+    record('useId', index, id)
+    return id
+  },
+  useTransition() {
+    const index = inspection!.hookIndex
+    const isPending = nextHookNode()?.memoizedState ?? false
+    nextHookNode()
+    record('useTransition', index, isPending)
+    return [isPending, noop]
+  },
+  useDeferredValue(value: unknown) {
+    const index = inspection!.hookIndex
+    const node = nextHookNode()
+    const deferred = node ? node.memoizedState : value
+    record('useDeferredValue', index, deferred)
+    return deferred
+  },
+  useSyncExternalStore(_subscribe: unknown, getSnapshot: () => unknown) {
+    const index = inspection!.hookIndex
+    const node = nextHookNode()
+    nextHookNode()
+    const snapshot = node ? node.memoizedState : getSnapshot()
+    record('useSyncExternalStore', index, snapshot)
+    return snapshot
+  },
+  useActionState(_action: unknown, initialState: unknown) {
+    const index = inspection!.hookIndex
+    const node = nextHookNode()
+    const isPending = nextHookNode()?.memoizedState ?? false
+    nextHookNode()
+    const state = node ? node.memoizedState : initialState
+    record('useActionState', index, state)
+    return [state, noop, isPending]
+  },
+  useFormState(_action: unknown, initialState: unknown) {
+    const index = inspection!.hookIndex
+    const node = nextHookNode()
+    nextHookNode()
+    nextHookNode()
+    const state = node ? node.memoizedState : initialState
+    record('useActionState', index, state)
+    return [state, noop, false]
+  },
+  useOptimistic(passthrough: unknown) {
+    const index = inspection!.hookIndex
+    const node = nextHookNode()
+    const state = node ? node.memoizedState : passthrough
+    record('useOptimistic', index, state)
+    return [state, noop]
+  },
+  useEffectEvent(callback: unknown) {
+    const index = inspection!.hookIndex
+    nextHookNode()
+    record('useEffectEvent', index, callback)
+    return callback
+  },
+  useDebugValue(value: unknown, formatter?: (value: unknown) => unknown) {
+    record('debugValue', null, typeof formatter === 'function' ? formatter(value) : value)
+  },
+  useCacheRefresh() {
+    nextHookNode()
+    return noop
+  },
+  useHostTransitionStatus() {
+    return { pending: false, data: null, method: null, action: null }
+  },
+  useMemoCache(size: number) {
+    // Compiled components recompute everything on a fresh cache
+    return Array.from({ length: size }, () => REACT_MEMO_CACHE_SENTINEL)
+  },
+}
+
+/**
+ * Re-renders a function component with a patched dispatcher and returns its
+ * hooks, with custom hooks grouped into `subHooks`. Returns null when the
+ * component can't be rendered outside of React.
+ *
+ * `dispatcherRef` is the renderer's `currentDispatcherRef`: React 19's shared
+ * internals (dispatcher in `H`) or React 18's `{ current }`.
+ */
+export function inspectHooks(fiber: FiberNode, dispatcherRef: DispatcherRef | undefined): Hook[] | null {
+  const render = getRenderFunction(fiber)
+  if (!render || !dispatcherRef || inspection) {
+    return null
+  }
+
+  const ref = dispatcherRef as Record<'H' | 'current', unknown>
+  const dispatcherKey = 'H' in dispatcherRef ? 'H' : 'current'
+  const previousDispatcher = ref[dispatcherKey]
+  const previousStackTraceLimit = Error.stackTraceLimit
+  const restoreConsole = silenceConsole()
+
+  // Stack lengths are compared below, so they must not be truncated
+  Error.stackTraceLimit = Infinity
+  ref[dispatcherKey] = dispatcher
+
+  try {
+    inspection = { fiber, hookNode: fiber.memoizedState, hookIndex: 0, calls: [], rootStackLength: 0 }
+    callComponent(render, fiber)
+    return buildHookTree(inspection.calls)
+  }
+  catch {
+    return null
+  }
+  finally {
+    inspection = null
+    ref[dispatcherKey] = previousDispatcher
+    Error.stackTraceLimit = previousStackTraceLimit
+    restoreConsole()
+  }
+}
+
+function getRenderFunction(fiber: FiberNode): RenderFunction | null {
+  switch (fiber.tag) {
+    case WorkTag.FunctionComponent:
+    case WorkTag.IndeterminateComponent:
+    case WorkTag.IncompleteFunctionComponent:
+    case WorkTag.SimpleMemoComponent:
+      return typeof fiber.type === 'function' ? fiber.type : null
+    case WorkTag.ForwardRef:
+      return typeof fiber.type?.render === 'function' ? fiber.type.render : null
+  }
+  return null
+}
+
+/**
+ * Calls the component, recording how deep the stack is at this point so hook
+ * stacks can be cut off just below the component
+ */
+function callComponent(render: RenderFunction, fiber: FiberNode) {
+  inspection!.rootStackLength = parseStack(new Error('root').stack).length
+  render(fiber.memoizedProps, fiber.tag === WorkTag.ForwardRef ? fiber.ref : undefined)
+}
+
+/**
+ * Moves on to the next state node, returning the one for the current hook
+ */
+function nextHookNode(): HookNode | null {
+  const state = inspection!
+  const node = state.hookNode
+  if (node) {
+    state.hookNode = node.next
+  }
+  state.hookIndex++
+  return node
+}
+
+/**
+ * Records a hook call. Must be called straight from a dispatcher method so
+ * the frames above the custom hooks are always the same.
+ */
+function record(type: HookCall['type'], hookIndex: number | null, value: unknown, deps?: unknown[] | null) {
+  const state = inspection!
+  const stack = parseStack(new Error(type).stack)
+  const componentIndex = stack.length - state.rootStackLength - 1
+  if (componentIndex < DISPATCHER_FRAMES) {
+    throw abortInspection
+  }
+
+  state.calls.push({
+    type,
+    hookIndex,
+    value,
+    deps: deps ?? undefined,
+    location: stack[DISPATCHER_FRAMES].location,
+    // Each custom hook is keyed by where its caller called it, so two calls
+    // of the same hook stay apart
+    customHooks: stack.slice(DISPATCHER_FRAMES, componentIndex).reverse().map((frame, index, frames) => ({
+      functionName: frame.functionName,
+      location: index === 0 ? stack[componentIndex].location : frames[index - 1].location,
+    })),
+  })
+}
+
+function readContextValue(context: unknown): unknown {
+  let dependency = inspection!.fiber.dependencies?.firstContext
+  while (dependency) {
+    if (dependency.context === context) {
+      return dependency.memoizedValue
+    }
+    dependency = dependency.next
+  }
+  return (context as { _currentValue?: unknown } | null)?._currentValue
+}
+
+/**
+ * Groups recorded calls under the custom hooks they were made through
+ */
+function buildHookTree(calls: HookCall[]): Hook[] {
+  const hooks: Hook[] = []
+  let open: Array<{ key: string, hook: Hook }> = []
+
+  for (const call of calls) {
+    const keys = call.customHooks.map(frame => `${frame.functionName}@${frame.location}`)
+    let shared = 0
+    while (shared < open.length && shared < keys.length && open[shared].key === keys[shared]) {
+      shared++
+    }
+    open = open.slice(0, shared)
+
+    for (let index = shared; index < keys.length; index++) {
+      const hook: Hook = {
+        id: null,
+        name: getCustomHookName(call.customHooks[index].functionName),
+        type: 'custom',
+        value: undefined,
+        subHooks: [],
+        hookSource: parseLocation(call.customHooks[index].location),
+      }
+      ;(open.length > 0 ? open[open.length - 1].hook.subHooks! : hooks).push(hook)
+      open.push({ key: keys[index], hook })
+    }
+
+    const parent = open.length > 0 ? open[open.length - 1].hook : null
+    if (call.type === 'debugValue') {
+      // useDebugValue labels the custom hook it was called in
+      if (parent) {
+        parent.value = call.value
+      }
+      continue
+    }
+
+    const hook: Hook = {
+      id: call.hookIndex,
+      name: call.type.slice(3) || 'Use',
+      type: call.type,
+      value: call.value,
+      hookSource: parseLocation(call.location),
+    }
+    if (call.deps) {
+      hook.deps = call.deps
+    }
+    ;(parent ? parent.subHooks! : hooks).push(hook)
+  }
+
+  return hooks
+}
+
+/**
+ * Shows custom hooks the way React DevTools does, `useUser` as `User`
+ */
+function getCustomHookName(functionName: string): string {
+  return /^use[A-Z0-9]/.test(functionName) ? functionName.slice(3) : functionName
+}
+
+/**
+ * Splits a stack frame location, `http://localhost:5173/src/App.tsx?t=1:12:39`,
+ * into the module URL and its 1-based line and column
+ */
+function parseLocation(location: string): ComponentSource | undefined {
+  const match = /^(.+):(\d+):(\d+)$/.exec(location)
+  if (!match) {
+    return undefined
+  }
+  return { fileName: match[1], lineNumber: Number(match[2]), columnNumber: Number(match[3]) }
+}
+
+/**
+ * Parses V8 (`at name (file:1:2)`) and Firefox/Safari (`name@file:1:2`)
+ * stack traces
+ */
+function parseStack(stack: string | undefined): StackFrame[] {
+  const frames: StackFrame[] = []
+
+  for (const line of (stack || '').split('\n')) {
+    const v8 = /^\s*at (?:(.+?) \((.+)\)|(.+))$/.exec(line)
+    if (v8) {
+      frames.push({ functionName: cleanFunctionName(v8[1] || ''), location: v8[2] || v8[3] })
+      continue
+    }
+
+    const other = /^([^@]*)@(.+:\d+:\d+)$/.exec(line)
+    if (other) {
+      frames.push({ functionName: cleanFunctionName(other[1]), location: other[2] })
+    }
+  }
+
+  return frames
+}
+
+/**
+ * Strips receivers and aliases, e.g. `Object.useUser [as default]` to `useUser`
+ */
+function cleanFunctionName(name: string): string {
+  const withoutAlias = name.replace(/ \[as [^\]]+\]$/, '').replace(/^async /, '')
+  return withoutAlias.slice(withoutAlias.lastIndexOf('.') + 1) || 'anonymous'
+}
+
+/**
+ * Mutes the console while the component renders again, so its logs don't
+ * show up twice
+ */
+function silenceConsole(): () => void {
+  const methods = ['log', 'info', 'warn', 'error', 'debug'] as const
+  // eslint-disable-next-line no-console
+  const originals = methods.map(method => console[method])
+  methods.forEach((method) => {
+    // eslint-disable-next-line no-console
+    console[method] = noop
+  })
+  return () => {
+    methods.forEach((method, index) => {
+      // eslint-disable-next-line no-console
+      console[method] = originals[index]
+    })
+  }
+}
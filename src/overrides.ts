@@ -0,0 +1,118 @@
+/**
+ * Live editing of mounted components
+ *
+ * Development builds of React attach an override API to the renderer they
+ * inject into the DevTools hook. `overrideProps` and `overrideHookState`
+ * copy the new value into the fiber at a path and schedule a synchronous
+ * re-render of it. Class state goes through the instance's own `setState`.
+ */
+
+import { getInPath } from './dehydrate'
+import { getFiberById } from './fiber-registry'
+import { getRendererForFiber } from './react-detector'
+import type { HookNode } from './types'
+
+/**
+ * Sets the prop at a path. Returns why the edit couldn't be applied, or null
+ * once the re-render is scheduled.
+ */
+export function overrideProps(componentId: number, path: Array<string | number>, value: unknown): string | null {
+  const fiber = getFiberById(componentId)
+  if (!fiber) {
+    return 'the component is no longer mounted'
+  }
+  if (path.length === 0) {
+    return 'props can only be edited one at a time'
+  }
+  if (!hasPath(fiber.memoizedProps, path)) {
+    return `props.${path.join('.')} no longer exists`
+  }
+
+  const renderer = getRendererForFiber(fiber)
+  if (!renderer?.overrideProps) {
+    return 'the renderer does not support editing, is this a production build?'
+  }
+
+  renderer.overrideProps(fiber, path, value)
+  return null
+}
+
+/**
+ * Sets the class component state at a path
+ */
+export function overrideState(componentId: number, path: Array<string | number>, value: unknown): string | null {
+  const fiber = getFiberById(componentId)
+  if (!fiber) {
+    return 'the component is no longer mounted'
+  }
+
+  const instance = fiber.stateNode
+  if (typeof instance?.setState !== 'function') {
+    return 'the component has no class state'
+  }
+  if (path.length === 0) {
+    return 'state can only be edited one key at a time'
+  }
+  if (!hasPath(instance.state, path)) {
+    return `state.${path.join('.')} no longer exists`
+  }
+
+  const [key, ...rest] = path
+  instance.setState({ [key]: copyWithSet(instance.state[key], rest, value) })
+  return null
+}
+
+/**
+ * Sets the value of a useState or useReducer hook, or a path inside it. The
+ * hook is addressed by its index in the component's hook list.
+ */
+export function overrideHookState(componentId: number, hookIndex: number, path: Array<string | number>, value: unknown): string | null {
+  const fiber = getFiberById(componentId)
+  if (!fiber) {
+    return 'the component is no longer mounted'
+  }
+
+  let hook: HookNode | null = fiber.memoizedState
+  for (let index = 0; index < hookIndex && hook; index++) {
+    hook = hook.next
+  }
+  // Only state hooks keep the reducer they were last rendered with
+  if (!hook?.queue?.lastRenderedReducer) {
+    return `hook ${hookIndex} is no longer a state hook`
+  }
+  if (path.length > 0 && !hasPath(hook.memoizedState, path)) {
+    return `${path.join('.')} no longer exists in hook ${hookIndex}`
+  }
+
+  const renderer = getRendererForFiber(fiber)
+  if (!renderer?.overrideHookState) {
+    return 'the renderer does not support editing, is this a production build?'
+  }
+
+  renderer.overrideHookState(fiber, hookIndex, path, value)
+  return null
+}
+
+/**
+ * Checks that a path still exists, so an edit made against a value from
+ * before a hot update can't recreate a structure the code has moved away from
+ */
+function hasPath(value: unknown, path: Array<string | number>): boolean {
+  const parent = getInPath(value, path.slice(0, -1))
+  return !!parent && typeof parent === 'object' && path[path.length - 1] in parent
+}
+
+/**
+ * Copies the objects along a path, replacing the value at its end
+ */
+function copyWithSet(target: unknown, path: Array<string | number>, value: unknown): unknown {
+  if (path.length === 0) {
+    return value
+  }
+
+  const [key, ...rest] = path
+  const source = target as Record<string | number, unknown> | undefined
+  const copy = (Array.isArray(target) ? target.slice() : { ...source }) as Record<string | number, unknown>
+  copy[key] = copyWithSet(source?.[key], rest, value)
+  return copy
+}
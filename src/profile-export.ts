@@ -0,0 +1,271 @@
+/**
+ * Profile export and import
+ *
+ * Recordings are exported in Chrome's Trace Event format, which the
+ * Performance panel and Perfetto open. Commits and component renders become
+ * nested duration events.
+ *
+ * Profiles exported from React DevTools' Profiler (its `profilingData` format)
+ * load into the panel read-only. React DevTools' own format isn't written:
+ * the recorder keeps the components each commit touched rather than the tree
+ * as it was when recording started and what mounted or unmounted since, which
+ * that format needs.
+ */
+
+import { formatDisplayName } from './fiber-tags'
+import type { CommitData, ProfilerData, ProfilingSession, ReactComponent, WrapperBadge } from './types'
+
+export interface ChromeTraceEvent {
+  ph: 'X' | 'M'
+  name: string
+  cat?: string
+  pid: number
+  tid: number
+  // Microseconds
+  ts?: number
+  dur?: number
+  args?: Record<string, unknown>
+}
+
+interface ReactDevToolsNode {
+  id: number
+  children: number[]
+  displayName: string | null
+  hocDisplayNames: string[] | null
+  key: string | number | null
+  type: number
+}
+
+interface ReactDevToolsCommit {
+  changeDescriptions: Array<[number, unknown]> | null
+  duration: number
+  effectDuration: number | null
+  fiberActualDurations: Array<[number, number]>
+  fiberSelfDurations: Array<[number, number]>
+  passiveEffectDuration: number | null
+  priorityLevel: string | null
+  timestamp: number
+  updaters: Array<{ id: number, displayName: string | null, hocDisplayNames: string[] | null, key: null, type: number }> | null
+}
+
+interface ReactDevToolsRoot {
+  commitData: ReactDevToolsCommit[]
+  displayName: string
+  initialTreeBaseDurations: Array<[number, number]>
+  operations: number[][]
+  rootID: number
+  snapshots: Array<[number, ReactDevToolsNode]>
+}
+
+export interface ReactDevToolsProfile {
+  version: 5
+  dataForRoots: ReactDevToolsRoot[]
+}
+
+// React DevTools' ElementType constants
+const ELEMENT_TYPES: Partial<Record<ReactComponent['type'], number>> = {
+  class: 1,
+  provider: 2,
+  consumer: 2,
+  function: 5,
+  forwardRef: 6,
+  memo: 8,
+  profiler: 10,
+  root: 11,
+  suspense: 12,
+  activity: 16,
+}
+// Operation updating a fiber's tree base duration, in microseconds
+const TREE_OPERATION_UPDATE_TREE_BASE_DURATION = 4
+
+const BADGES: WrapperBadge[] = ['Memo', 'ForwardRef', 'Lazy']
+
+/**
+ * Converts a session to Chrome's Trace Event format. Render start times
+ * aren't recorded, so renders are laid out from their durations: a component
+ * first, then each child that rendered in order, which is how React walks the
+ * tree.
+ */
+export function toChromeTrace(session: ProfilingSession): { traceEvents: ChromeTraceEvent[], displayTimeUnit: 'ms', otherData: Record<string, unknown> } {
+  const traceEvents: ChromeTraceEvent[] = [
+    { ph: 'M', name: 'process_name', pid: 1, tid: 1, args: { name: 'React' } },
+    { ph: 'M', name: 'thread_name', pid: 1, tid: 1, args: { name: 'Commits' } },
+  ]
+
+  session.commits.forEach((commit, index) => {
+    const start = toMicroseconds(commit.commitTime - commit.duration)
+    const end = start + toMicroseconds(commit.duration)
+    traceEvents.push({
+      ph: 'X',
+      name: `Commit ${index + 1}`,
+      cat: 'react.commit',
+      pid: 1,
+      tid: 1,
+      ts: start,
+      dur: end - start,
+      args: {
+        priorityLevel: commit.priorityLevel,
+        updaters: commit.updaters.map(updater => updater.displayName),
+        effectDuration: commit.effectDuration,
+        passiveEffectDuration: commit.passiveEffectDuration,
+      },
+    })
+
+    const children = groupByParent(commit.fibers)
+    const place = (fiber: ProfilerData, ts: number, parentEnd: number) => {
+      let childStart = ts
+      if (fiber.didRender) {
+        const dur = Math.min(toMicroseconds(fiber.actualDuration), parentEnd - ts)
+        traceEvents.push({
+          ph: 'X',
+          name: fiber.displayName,
+          cat: 'react.render',
+          pid: 1,
+          tid: 1,
+          ts,
+          dur,
+          args: { id: fiber.id, selfDuration: fiber.selfDuration, treeBaseDuration: fiber.treeBaseDuration },
+        })
+        parentEnd = ts + dur
+        childStart = ts + Math.min(toMicroseconds(fiber.selfDuration), dur)
+      }
+
+      for (const child of children.get(fiber.id) || []) {
+        place(child, childStart, parentEnd)
+        if (child.didRender) {
+          childStart = Math.min(parentEnd, childStart + toMicroseconds(child.actualDuration))
+        }
+      }
+    }
+    for (const root of children.get(0) || []) {
+      place(root, start, end)
+    }
+  })
+
+  return { traceEvents, displayTimeUnit: 'ms', otherData: { recordedAt: new Date(session.startTime).toISOString() } }
+}
+
+/**
+ * Reads a React DevTools `profilingData` export into a read-only session, or
+ * returns null for anything else. Commits are rebuilt like the recorder
+ * captures them: the components that rendered, their ancestors, and the
+ * children of those. Operations other than tree base duration updates aren't
+ * decoded, so components that mounted during the recording are missing.
+ */
+export function fromReactDevToolsProfile(data: unknown): ProfilingSession | null {
+  const profile = data as ReactDevToolsProfile
+  if (!profile || typeof profile.version !== 'number' || !Array.isArray(profile.dataForRoots)) {
+    return null
+  }
+
+  const commits = profile.dataForRoots
+    .flatMap(root => fromReactDevToolsRoot(root))
+    .sort((a, b) => a.commitTime - b.commitTime)
+  return { startTime: 0, recording: false, commits, readOnly: true }
+}
+
+function fromReactDevToolsRoot(root: ReactDevToolsRoot): CommitData[] {
+  const nodes = new Map(root.snapshots)
+  const parents = new Map<number, number>()
+  for (const node of nodes.values()) {
+    for (const child of node.children) {
+      parents.set(child, node.id)
+    }
+  }
+  const treeBaseDurations = new Map(root.initialTreeBaseDurations)
+
+  return root.commitData.map((commit, index) => {
+    readTreeBaseDurations(root.operations[index] || [], treeBaseDurations)
+
+    const actualDurations = new Map(commit.fiberActualDurations)
+    const selfDurations = new Map(commit.fiberSelfDurations)
+    const onPath = new Set<number>()
+    for (const id of actualDurations.keys()) {
+      for (let node: number | undefined = id; node !== undefined && !onPath.has(node); node = parents.get(node)) {
+        onPath.add(node)
+      }
+    }
+
+    const fibers: ProfilerData[] = []
+    const visit = (id: number, parentId: number) => {
+      const node = nodes.get(id)
+      if (!node) {
+        return
+      }
+
+      const didRender = actualDurations.has(id)
+      fibers.push({
+        id,
+        displayName: node.id === root.rootID
+          ? root.displayName
+          : formatDisplayName(node.displayName || 'Anonymous', (node.hocDisplayNames || []).filter(isWrapperBadge)),
+        type: getComponentType(node.type),
+        parentId,
+        didRender,
+        actualDuration: actualDurations.get(id) ?? 0,
+        selfDuration: selfDurations.get(id) ?? 0,
+        selfBaseDuration: 0,
+        treeBaseDuration: treeBaseDurations.get(id) ?? 0,
+      })
+      if (onPath.has(id)) {
+        node.children.forEach(child => visit(child, id))
+      }
+    }
+    visit(root.rootID, 0)
+
+    return {
+      rootId: root.rootID,
+      commitTime: commit.timestamp,
+      duration: commit.duration,
+      effectDuration: commit.effectDuration ?? null,
+      passiveEffectDuration: commit.passiveEffectDuration ?? null,
+      priorityLevel: commit.priorityLevel || 'Unknown',
+      updaters: (commit.updaters || []).map(updater => ({
+        displayName: formatDisplayName(updater.displayName || 'Anonymous', (updater.hocDisplayNames || []).filter(isWrapperBadge)),
+        id: updater.id,
+        type: getComponentType(updater.type),
+      })),
+      fibers,
+    }
+  })
+}
+
+/**
+ * Applies the tree base duration updates at the start of an operations
+ * array, stopping at the first operation of another kind
+ */
+function readTreeBaseDurations(operations: number[], treeBaseDurations: Map<number, number>) {
+  // Skip the renderer and root IDs, then the string table
+  let index = 3 + (operations[2] ?? 0)
+  while (operations[index] === TREE_OPERATION_UPDATE_TREE_BASE_DURATION) {
+    treeBaseDurations.set(operations[index + 1], operations[index + 2] / 1000)
+    index += 3
+  }
+}
+
+function isWrapperBadge(name: string): name is WrapperBadge {
+  return BADGES.includes(name as WrapperBadge)
+}
+
+function getComponentType(elementType: number): ReactComponent['type'] {
+  const entry = Object.entries(ELEMENT_TYPES).find(([, type]) => type === elementType)
+  return (entry?.[0] as ReactComponent['type']) || 'function'
+}
+
+function groupByParent(fibers: ProfilerData[]): Map<number, ProfilerData[]> {
+  const children = new Map<number, ProfilerData[]>()
+  for (const fiber of fibers) {
+    const siblings = children.get(fiber.parentId)
+    if (siblings) {
+      siblings.push(fiber)
+    }
+    else {
+      children.set(fiber.parentId, [fiber])
+    }
+  }
+  return children
+}
+
+function toMicroseconds(milliseconds: number): number {
+  return Math.round(milliseconds * 1000)
+}
@@ -0,0 +1,283 @@
+/**
+ * Profiler charts
+ *
+ * The flame graph and ranked chart of a recorded commit, drawn on a canvas.
+ * Layouts are computed once per commit and only the rows in view are drawn,
+ * so commits with thousands of components scroll without building a DOM node
+ * per bar.
+ */
+
+import type { CommitData, ProfilerData } from './types'
+
+export type ProfilerChartType = 'flame' | 'ranked'
+
+export interface ChartBar {
+  fiber: ProfilerData
+  // Position and size as fractions of the chart width
+  x: number
+  width: number
+}
+
+export interface ChartLayout {
+  rows: ChartBar[][]
+  maxSelfDuration: number
+}
+
+export interface ProfilerChartOptions {
+  type: ProfilerChartType
+  commit: CommitData
+  selectedId?: number
+  onSelect: (fiber: ProfilerData) => void
+}
+
+interface ChartState {
+  options: ProfilerChartOptions
+  canvas: HTMLCanvasElement
+  spacer: HTMLElement
+  frame?: number
+}
+
+const ROW_HEIGHT = 18
+// Bars narrower than this aren't labeled
+const MIN_LABEL_WIDTH = 30
+const CHAR_WIDTH = 6.6
+const SKIPPED_COLOR = '#3a3a3a'
+
+const layouts = new WeakMap<CommitData, Partial<Record<ProfilerChartType, ChartLayout>>>()
+const charts = new WeakMap<HTMLElement, ChartState>()
+
+/**
+ * Lays a commit out as a flame graph: one row per depth, each component as
+ * wide as its subtree's base duration, so components that didn't render keep
+ * their place
+ */
+export function layoutFlameGraph(commit: CommitData): ChartLayout {
+  const children = new Map<number, ProfilerData[]>()
+  for (const fiber of commit.fibers) {
+    const siblings = children.get(fiber.parentId)
+    if (siblings) {
+      siblings.push(fiber)
+    }
+    else {
+      children.set(fiber.parentId, [fiber])
+    }
+  }
+
+  const roots = children.get(0) || []
+  const total = roots.reduce((sum, fiber) => sum + fiber.treeBaseDuration, 0)
+  const rows: ChartBar[][] = []
+
+  // Without timings (production builds) siblings split their parent evenly
+  const place = (siblings: ProfilerData[], depth: number, x: number, parentWidth: number) => {
+    for (const fiber of siblings) {
+      const width = total > 0 ? fiber.treeBaseDuration / total : parentWidth / siblings.length
+      ;(rows[depth] ||= []).push({ fiber, x, width })
+      place(children.get(fiber.id) || [], depth + 1, x, width)
+      x += width
+    }
+  }
+  place(roots, 0, 0, 1)
+
+  return { rows, maxSelfDuration: getMaxSelfDuration(commit) }
+}
+
+/**
+ * Lays a commit out as a ranked chart: the components that rendered, slowest
+ * first, one per row
+ */
+export function layoutRankedChart(commit: CommitData): ChartLayout {
+  const maxSelfDuration = getMaxSelfDuration(commit)
+  const rows = commit.fibers
+    .filter(fiber => fiber.didRender)
+    .sort((a, b) => b.selfDuration - a.selfDuration)
+    .map(fiber => [{ fiber, x: 0, width: maxSelfDuration > 0 ? fiber.selfDuration / maxSelfDuration : 1 }])
+
+  return { rows, maxSelfDuration }
+}
+
+/**
+ * Goes from teal for the fastest to yellow for the slowest
+ */
+export function getDurationColor(ratio: number): string {
+  return `hsl(${Math.round(180 - 130 * ratio)}, 70%, 55%)`
+}
+
+/**
+ * Draws a chart into a scrolling container, reusing its canvas across calls
+ */
+export function renderProfilerChart(container: HTMLElement, options: ProfilerChartOptions) {
+  let chart = charts.get(container)
+  if (!chart) {
+    chart = createChart(container, options)
+    charts.set(container, chart)
+  }
+  chart.options = options
+
+  chart.spacer.style.height = `${getLayout(options.commit, options.type).rows.length * ROW_HEIGHT}px`
+  scheduleDraw(container)
+}
+
+function createChart(container: HTMLElement, options: ProfilerChartOptions): ChartState {
+  // The canvas sticks to the top of the scrolled area while the spacer below
+  // it gives the container the full height of the chart
+  const canvas = document.createElement('canvas')
+  canvas.style.cssText = 'position: sticky; top: 0; left: 0; display: block;'
+  const spacer = document.createElement('div')
+  container.innerHTML = ''
+  container.append(canvas, spacer)
+
+  container.addEventListener('scroll', () => scheduleDraw(container))
+  if (typeof ResizeObserver !== 'undefined') {
+    // Also draws the chart once a hidden tab is shown
+    new ResizeObserver(() => scheduleDraw(container)).observe(container)
+  }
+
+  canvas.addEventListener('click', (event) => {
+    const bar = getBarAt(container, event)
+    if (bar) {
+      charts.get(container)?.options.onSelect(bar.fiber)
+    }
+  })
+  canvas.addEventListener('mousemove', (event) => {
+    const bar = getBarAt(container, event)
+    canvas.title = bar ? describeBar(bar.fiber) : ''
+    canvas.style.cursor = bar ? 'pointer' : 'default'
+  })
+
+  return { options, canvas, spacer }
+}
+
+function scheduleDraw(container: HTMLElement) {
+  const chart = charts.get(container)
+  if (chart && chart.frame === undefined) {
+    chart.frame = requestAnimationFrame(() => {
+      chart.frame = undefined
+      draw(container, chart)
+    })
+  }
+}
+
+function draw(container: HTMLElement, chart: ChartState) {
+  const { canvas, spacer, options } = chart
+  const width = container.clientWidth
+  const height = Math.min(container.clientHeight, spacer.offsetHeight)
+  if (width === 0 || height === 0) {
+    return
+  }
+
+  const ratio = window.devicePixelRatio || 1
+  canvas.width = Math.round(width * ratio)
+  canvas.height = Math.round(height * ratio)
+  canvas.style.width = `${width}px`
+  canvas.style.height = `${height}px`
+  // Keep the scrollable height at the chart's own, the canvas takes up space too
+  canvas.style.marginBottom = `-${height}px`
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    return
+  }
+  context.setTransform(ratio, 0, 0, ratio, 0, 0)
+  context.clearRect(0, 0, width, height)
+  context.font = '11px Monaco, Menlo, monospace'
+  context.textBaseline = 'middle'
+
+  const { rows, maxSelfDuration } = getLayout(options.commit, options.type)
+  const scrollTop = container.scrollTop
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + height) / ROW_HEIGHT))
+  for (let row = Math.floor(scrollTop / ROW_HEIGHT); row < lastRow; row++) {
+    const y = row * ROW_HEIGHT - scrollTop
+    for (const { fiber, x, width: barWidth } of rows[row]) {
+      const left = x * width
+      const pixels = barWidth * width
+      if (pixels < 0.5) {
+        continue
+      }
+
+      context.fillStyle = fiber.didRender && maxSelfDuration > 0
+        ? getDurationColor(fiber.selfDuration / maxSelfDuration)
+        : fiber.didRender ? getDurationColor(0) : SKIPPED_COLOR
+      context.fillRect(left, y, Math.max(pixels - 1, 0.5), ROW_HEIGHT - 1)
+
+      if (fiber.id === options.selectedId) {
+        context.strokeStyle = '#ffffff'
+        context.strokeRect(left + 0.5, y + 0.5, Math.max(pixels - 2, 0.5), ROW_HEIGHT - 2)
+      }
+
+      const label = options.type === 'ranked' ? `${fiber.displayName} (${fiber.selfDuration.toFixed(1)}ms)` : fiber.displayName
+      // For a row of ranked bars the label can run past short bars
+      const room = options.type === 'ranked' ? width : pixels
+      if (room >= MIN_LABEL_WIDTH) {
+        const text = truncate(label, Math.floor((room - 6) / CHAR_WIDTH))
+        const onBar = fiber.didRender && text.length * CHAR_WIDTH + 6 <= pixels
+        context.fillStyle = onBar ? '#1e1e1e' : fiber.didRender ? '#ccc' : '#888'
+        context.fillText(text, left + 3, y + ROW_HEIGHT / 2)
+      }
+    }
+  }
+}
+
+function getLayout(commit: CommitData, type: ProfilerChartType): ChartLayout {
+  let cached = layouts.get(commit)
+  if (!cached) {
+    cached = {}
+    layouts.set(commit, cached)
+  }
+  return cached[type] ||= type === 'flame' ? layoutFlameGraph(commit) : layoutRankedChart(commit)
+}
+
+/**
+ * Finds the bar under the mouse. Bars in a flame graph row are in order, so
+ * the row is binary searched.
+ */
+function getBarAt(container: HTMLElement, event: MouseEvent): ChartBar | null {
+  const chart = charts.get(container)
+  if (!chart) {
+    return null
+  }
+
+  const rect = container.getBoundingClientRect()
+  const row = getLayout(chart.options.commit, chart.options.type).rows[Math.floor((event.clientY - rect.top + container.scrollTop) / ROW_HEIGHT)]
+  if (!row) {
+    return null
+  }
+
+  const x = (event.clientX - rect.left) / container.clientWidth
+  if (chart.options.type === 'ranked') {
+    return row[0]
+  }
+
+  let low = 0
+  let high = row.length - 1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    const bar = row[middle]
+    if (x < bar.x) {
+      high = middle - 1
+    }
+    else if (x >= bar.x + bar.width) {
+      low = middle + 1
+    }
+    else {
+      return bar
+    }
+  }
+  return null
+}
+
+function describeBar(fiber: ProfilerData): string {
+  return fiber.didRender
+    ? `${fiber.displayName}: ${fiber.selfDuration.toFixed(1)}ms self, ${fiber.actualDuration.toFixed(1)}ms total`
+    : `${fiber.displayName}: did not render`
+}
+
+function getMaxSelfDuration(commit: CommitData): number {
+  return commit.fibers.reduce((max, fiber) => fiber.didRender ? Math.max(max, fiber.selfDuration) : max, 0)
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text
+  }
+  return maxLength > 1 ? `${text.slice(0, maxLength - 1)}…` : ''
+}
@@ -0,0 +1,115 @@
+/**
+ * Profiler recording
+ *
+ * While recording, every commit is captured as a `CommitData`: its timing and
+ * priority, the components whose updates it committed, and the render times
+ * React measured for each fiber (`actualDuration`, `selfBaseDuration`,
+ * `treeBaseDuration`, kept by development and profiling builds). The client
+ * streams commits to the dev server, which keeps the session.
+ */
+
+import { getFiberId } from './fiber-registry'
+import { WorkTag, didFiberRender, didSubtreeRender, formatDisplayName, getFiberKind, getFiberName, getWrapperBadges } from './fiber-tags'
+import { getRootName, isComponentFiber } from './react-detector'
+import type { CommitData, FiberNode, FiberRoot, ProfilerData } from './types'
+
+// Scheduler priorities React passes to `onCommitFiberRoot`, React 17 used 99-95
+const PRIORITY_LEVELS: Record<number, string> = {
+  1: 'Immediate',
+  2: 'User-Blocking',
+  3: 'Normal',
+  4: 'Low',
+  5: 'Idle',
+  99: 'Immediate',
+  98: 'User-Blocking',
+  97: 'Normal',
+  96: 'Low',
+  95: 'Idle',
+}
+
+let profilingStartTime: number | null = null
+
+export function startProfiling() {
+  profilingStartTime = performance.now()
+}
+
+export function stopProfiling() {
+  profilingStartTime = null
+}
+
+export function isProfiling(): boolean {
+  return profilingStartTime !== null
+}
+
+/**
+ * Captures a commit of a fiber root, or returns null when not recording
+ */
+export function captureCommit(root: FiberRoot, priorityLevel?: number): CommitData | null {
+  const rootFiber = root.current
+  if (profilingStartTime === null || !rootFiber) {
+    return null
+  }
+
+  const fibers: ProfilerData[] = []
+  collectProfilerData(rootFiber, null, true, fibers)
+
+  return {
+    rootId: getFiberId(rootFiber),
+    commitTime: performance.now() - profilingStartTime,
+    duration: rootFiber.actualDuration ?? 0,
+    effectDuration: typeof root.effectDuration === 'number' ? root.effectDuration : null,
+    passiveEffectDuration: typeof root.passiveEffectDuration === 'number' ? root.passiveEffectDuration : null,
+    priorityLevel: (priorityLevel !== undefined && PRIORITY_LEVELS[priorityLevel]) || 'Unknown',
+    // Only tracked while a DevTools hook is installed
+    updaters: Array.from(root.memoizedUpdaters || [], fiber => ({
+      displayName: getProfilerName(fiber),
+      id: getFiberId(fiber),
+      type: getFiberKind(fiber) || 'function',
+    })),
+    fibers,
+  }
+}
+
+/**
+ * Walks the parts of the tree React visited. Below a skipped subtree only its
+ * topmost components are recorded, their base durations still size it.
+ */
+function collectProfilerData(fiber: FiberNode, parent: ProfilerData | null, visited: boolean, fibers: ProfilerData[]) {
+  let entry = parent
+  if (isComponentFiber(fiber)) {
+    const didRender = visited && didFiberRender(fiber)
+    const actualDuration = didRender ? fiber.actualDuration ?? 0 : 0
+    entry = {
+      id: getFiberId(fiber),
+      displayName: getProfilerName(fiber),
+      type: getFiberKind(fiber) || 'function',
+      parentId: parent?.id ?? 0,
+      didRender,
+      actualDuration,
+      selfDuration: actualDuration,
+      selfBaseDuration: fiber.selfBaseDuration ?? 0,
+      treeBaseDuration: fiber.treeBaseDuration ?? 0,
+    }
+    fibers.push(entry)
+
+    // Host elements count towards the component that rendered them
+    if (parent?.didRender) {
+      parent.selfDuration = Math.max(0, parent.selfDuration - actualDuration)
+    }
+    if (!visited) {
+      return
+    }
+  }
+
+  const visitChildren = visited && didSubtreeRender(fiber)
+  for (let child = fiber.child; child; child = child.sibling) {
+    collectProfilerData(child, entry, visitChildren, fibers)
+  }
+}
+
+function getProfilerName(fiber: FiberNode): string {
+  if (fiber.tag === WorkTag.HostRoot) {
+    return getRootName(fiber.stateNode)
+  }
+  return formatDisplayName(getFiberName(fiber), getWrapperBadges(fiber))
+}
@@ -2,7 +2,11 @@
  * React component detection and parsing utilities
  */
 
-import type { FiberNode, Hook, ReactComponent, ReactDevToolsHook } from './types'
+import { DEFAULT_DEHYDRATE_DEPTH, dehydrate, getInPath } from './dehydrate'
+import { getFiberById, getFiberId, releaseFiberId } from './fiber-registry'
+import { inspectHooks } from './inspect-hooks'
+import { WorkTag, formatDisplayName, getFiberKind, getFiberName, getWrapperBadges, isHookFiber, isUserComponentFiber } from './fiber-tags'
+import type { ComponentSource, EffectState, FiberNode, FiberRoot, Hook, HookNode, ReactComponent, ReactDevToolsHook } from './types'
 
 /**
  * Detects if React is available and gets the DevTools hook
@@ -24,17 +28,72 @@ export function isReactAvailable(): boolean {
 }
 
 /**
- * Gets the React renderer from the DevTools hook
+ * Gets a React renderer registered with the DevTools hook
  */
-export function getReactRenderer() {
+export function getReactRenderer(rendererId: number) {
   const hook = getReactDevToolsHook()
-  if (!hook || !hook.renderers) {
+  return hook?.renderers?.get(rendererId) || null
+}
+
+/**
+ * Gets the mounted FiberRoots of every renderer, as tracked by the hook shim
+ */
+export function getFiberRoots(): FiberRoot[] {
+  const hook = getReactDevToolsHook()
+  if (!hook?.renderers || !hook.getFiberRoots) {
+    return []
+  }
+
+  const roots: FiberRoot[] = []
+  for (const rendererId of hook.renderers.keys()) {
+    roots.push(...hook.getFiberRoots(rendererId))
+  }
+  return roots
+}
+
+/**
+ * Finds the ID of the renderer a FiberRoot belongs to
+ */
+export function getRendererIdForRoot(root: FiberRoot): number | null {
+  const hook = getReactDevToolsHook()
+  if (!hook?.renderers || !hook.getFiberRoots) {
     return null
   }
 
-  // Get the first renderer (usually there's only one)
-  const renderers = Array.from(hook.renderers.values())
-  return renderers[0] || null
+  for (const rendererId of hook.renderers.keys()) {
+    if (hook.getFiberRoots(rendererId).has(root)) {
+      return rendererId
+    }
+  }
+  return null
+}
+
+/**
+ * Gets the fiber a renderer is rendering or running effects for, development
+ * builds only
+ */
+export function getCurrentFiber(): FiberNode | null {
+  const hook = getReactDevToolsHook()
+  for (const renderer of hook?.renderers?.values() || []) {
+    const fiber = renderer.getCurrentFiber?.()
+    if (fiber) {
+      return fiber
+    }
+  }
+  return null
+}
+
+/**
+ * Gets the renderer a mounted fiber was rendered by
+ */
+export function getRendererForFiber(fiber: FiberNode) {
+  let node = fiber
+  while (node.return) {
+    node = node.return
+  }
+
+  const rendererId = node.tag === WorkTag.HostRoot ? getRendererIdForRoot(node.stateNode) : null
+  return rendererId !== null ? getReactRenderer(rendererId) : null
 }
 
 /**
@@ -45,63 +104,78 @@ export function fiberToComponent(fiber: FiberNode, depth = 0): ReactComponent |
     return null
   }
 
-  // Skip certain fiber types that aren't user components
-  if (shouldSkipFiber(fiber)) {
+  // Skip host elements, text and built-ins that aren't shown in the tree
+  if (!isComponentFiber(fiber)) {
     return null
   }
 
-  const component: ReactComponent = {
-    id: generateComponentId(fiber),
-    name: getComponentName(fiber),
-    type: getComponentType(fiber),
+  const component = createComponent(fiber)
+  component.children = getChildComponents(fiber, component, depth)
+
+  return component
+}
+
+/**
+ * Describes a single component fiber, without walking its children. Hooks
+ * are listed as React stores them, `inspectComponent` names and nests them.
+ */
+export function createComponent(fiber: FiberNode): ReactComponent {
+  const name = fiber.tag === WorkTag.HostRoot ? getRootName(fiber.stateNode) : getFiberName(fiber)
+  const badges = getWrapperBadges(fiber)
+  return {
+    id: getFiberId(fiber),
+    name,
+    key: fiber.key ?? undefined,
+    displayName: badges.length > 0 ? formatDisplayName(name, badges) : undefined,
+    badges: badges.length > 0 ? badges : undefined,
+    type: getFiberKind(fiber) || 'function',
     props: fiber.memoizedProps || {},
-    state: fiber.memoizedState,
-    hooks: extractHooks(fiber),
+    state: isClassComponent(fiber) ? fiber.memoizedState : undefined,
+    hooks: isHookFiber(fiber) ? listHookNodes(fiber) : [],
     children: [],
     fiber,
     source: getComponentSource(fiber),
   }
+}
+
+/**
+ * Collects the components below a fiber, flattening host elements, text and
+ * other non-component fibers into their nearest component ancestor
+ */
+export function getChildComponents(fiber: FiberNode, parent?: ReactComponent, depth = 0): ReactComponent[] {
+  const components: ReactComponent[] = []
 
-  // Extract children
   let child = fiber.child
   while (child) {
-    const childComponent = fiberToComponent(child, depth + 1)
-    if (childComponent) {
-      childComponent.parent = component
-      component.children.push(childComponent)
+    if (isComponentFiber(child)) {
+      const childComponent = fiberToComponent(child, depth + 1)
+      if (childComponent) {
+        childComponent.parent = parent
+        components.push(childComponent)
+      }
+    }
+    else {
+      components.push(...getChildComponents(child, parent, depth + 1))
     }
     child = child.sibling
   }
 
-  return component
+  return components
 }
 
 /**
  * Gets the component tree from React's fiber tree
  */
 export function getComponentTree(): ReactComponent[] {
-  const renderer = getReactRenderer()
-  if (!renderer || !renderer.getCurrentFiber) {
+  if (!isReactAvailable()) {
     return []
   }
 
   try {
-    const rootFiber = renderer.getCurrentFiber()
-    if (!rootFiber) {
-      return []
-    }
-
-    // Find the root container
-    let current = rootFiber
-    while (current.return) {
-      current = current.return
-    }
-
     const components: ReactComponent[] = []
 
-    // Traverse the fiber tree
-    if (current.child) {
-      const component = fiberToComponent(current.child)
+    for (const root of getFiberRoots()) {
+      const component = fiberToComponent(root.current)
       if (component) {
         components.push(component)
       }
@@ -115,10 +189,68 @@ export function getComponentTree(): ReactComponent[] {
   }
 }
 
+/**
+ * Strips fiber and parent back-references and dehydrates values so a
+ * component tree can be sent over the wire
+ */
+export function toTransportTree(components: ReactComponent[], maxDepth = DEFAULT_DEHYDRATE_DEPTH): ReactComponent[] {
+  return components.map(({ fiber: _fiber, parent: _parent, children, ...component }) => ({
+    ...component,
+    props: dehydrate(component.props, maxDepth) as Record<string, unknown>,
+    state: component.state === undefined ? undefined : dehydrate(component.state, maxDepth) as Record<string, unknown>,
+    hooks: component.hooks && dehydrateHooks(component.hooks, maxDepth),
+    children: toTransportTree(children, maxDepth),
+  }))
+}
+
+function dehydrateHooks(hooks: Hook[], maxDepth: number): Hook[] {
+  return hooks.map(hook => ({
+    ...hook,
+    value: dehydrate(hook.value, maxDepth),
+    deps: hook.deps && dehydrate(hook.deps, maxDepth) as unknown[],
+    subHooks: hook.subHooks && dehydrateHooks(hook.subHooks, maxDepth),
+  }))
+}
+
+/**
+ * Describes a component with its hooks inspected, which renders it once more.
+ * Only the component the panel inspects is worth that, the tree and commits
+ * carry the hook list `createComponent` reads.
+ */
+export function inspectComponent(fiber: FiberNode): ReactComponent {
+  return { ...createComponent(fiber), hooks: isHookFiber(fiber) ? extractHooks(fiber) : [] }
+}
+
+/**
+ * Inspects the hooks of a mounted component for the panel, or returns null
+ * once it has unmounted
+ */
+export function inspectComponentHooks(id: number): Hook[] | null {
+  const fiber = getFiberById(id)
+  if (!fiber) {
+    return null
+  }
+
+  return dehydrateHooks(inspectComponent(fiber).hooks || [], DEFAULT_DEHYDRATE_DEPTH)
+}
+
+/**
+ * Dehydrates the value at a path inside a mounted component, for the panel to
+ * expand an envelope. Paths into hooks follow the inspected hooks.
+ */
+export function inspectComponentPath(id: number, path: Array<string | number>) {
+  const fiber = getFiberById(id)
+  if (!fiber) {
+    return null
+  }
+
+  return dehydrate(getInPath(path[0] === 'hooks' ? inspectComponent(fiber) : createComponent(fiber), path))
+}
+
 /**
  * Finds a component by ID in the tree
  */
-export function findComponentById(tree: ReactComponent[], id: string): ReactComponent | null {
+export function findComponentById(tree: ReactComponent[], id: number): ReactComponent | null {
   for (const component of tree) {
     if (component.id === id) {
       return component
@@ -134,140 +266,154 @@ export function findComponentById(tree: ReactComponent[], id: string): ReactComp
 }
 
 /**
- * Generates a unique ID for a component based on its fiber
- */
-function generateComponentId(fiber: FiberNode): string {
-  // Use a combination of fiber properties to create a unique ID
-  const type = fiber.type?.name || fiber.type?.displayName || 'Unknown'
-  const key = fiber.key || ''
-  const index = fiber.index || 0
-
-  // Create a hash-like ID
-  return `${type}_${key}_${index}_${Math.random().toString(36).substring(2, 11)}`
-}
-
-/**
- * Gets the display name of a component
+ * Collects the outermost host nodes a component rendered, following portals
+ * into their containers. Content hidden by Suspense or Activity is skipped.
  */
-function getComponentName(fiber: FiberNode): string {
-  if (!fiber.type) {
-    return 'Unknown'
-  }
-
-  // Function component
-  if (typeof fiber.type === 'function') {
-    return fiber.type.displayName || fiber.type.name || 'Anonymous'
+export function getHostNodes(fiber: FiberNode): Node[] {
+  if (fiber.tag === WorkTag.HostComponent || fiber.tag === WorkTag.HostText || fiber.tag === WorkTag.HostSingleton) {
+    return fiber.stateNode ? [fiber.stateNode] : []
   }
-
-  // String type (DOM element)
-  if (typeof fiber.type === 'string') {
-    return fiber.type
+  if (fiber.tag === WorkTag.OffscreenComponent && fiber.memoizedState !== null) {
+    return []
   }
 
-  // Symbol or other types
-  if (fiber.type.$$typeof) {
-    return fiber.type.displayName || 'Component'
+  const nodes: Node[] = []
+  for (let child = fiber.child; child; child = child.sibling) {
+    nodes.push(...getHostNodes(child))
   }
-
-  return 'Unknown'
+  return nodes
 }
 
 /**
- * Determines the type of component
+ * Finds the user component that rendered a DOM node: the nearest function,
+ * class, memo or forwardRef component above the node's host fiber
  */
-function getComponentType(fiber: FiberNode): ReactComponent['type'] {
-  if (!fiber.type) {
-    return 'function'
+export function getComponentFiberForNode(node: Node | null): FiberNode | null {
+  let fiber: FiberNode | null = null
+  for (let current = node; current && !fiber; current = current.parentNode) {
+    fiber = getHostFiber(current)
   }
 
-  // Check for specific React types
-  if (typeof fiber.type === 'string') {
-    return 'function' // DOM elements are treated as function components
+  while (fiber && !isUserComponentFiber(fiber)) {
+    fiber = fiber.return
   }
+  return fiber
+}
 
-  if (typeof fiber.type === 'function') {
-    // Check if it's a class component
-    if (fiber.type.prototype && fiber.type.prototype.isReactComponent) {
-      return 'class'
-    }
-
-    // Check for React.memo
-    if (fiber.type.$$typeof && fiber.type.$$typeof.toString().includes('memo')) {
-      return 'memo'
-    }
-
-    // Check for React.forwardRef
-    if (fiber.type.$$typeof && fiber.type.$$typeof.toString().includes('forward_ref')) {
-      return 'forwardRef'
+function getHostFiber(node: Node): FiberNode | null {
+  const hook = getReactDevToolsHook()
+  for (const renderer of hook?.renderers?.values() ?? []) {
+    const fiber = renderer.findFiberByHostInstance?.(node)
+    if (fiber) {
+      return fiber
     }
-
-    return 'function'
   }
 
-  return 'function'
+  // React 19 no longer injects findFiberByHostInstance, but React DOM still
+  // keeps each node's fiber under a randomized key
+  const key = Object.keys(node).find(key => key.startsWith('__reactFiber$'))
+  return key ? (node as unknown as Record<string, FiberNode>)[key] : null
 }
 
 /**
- * Extracts hooks information from a fiber
+ * Checks whether a fiber is shown in the tree rather than being a host
+ * element, text node, root or built-in like Fragment and StrictMode
  */
-function extractHooks(fiber: FiberNode): Hook[] {
-  const hooks: Hook[] = []
+export function isComponentFiber(fiber: FiberNode): boolean {
+  return getFiberKind(fiber) !== null
+}
 
-  if (!fiber.memoizedState) {
-    return hooks
+/**
+ * Labels a root with its container, e.g. `Root(div#app)`, or with the
+ * renderer's package for containers that aren't DOM elements
+ */
+export function getRootName(root: FiberRoot): string {
+  const container = root.containerInfo as Element | undefined
+  if (container?.nodeType === 1) {
+    const id = container.id ? `#${container.id}` : ''
+    const className = !id && typeof container.className === 'string' && container.className.trim()
+      ? `.${container.className.trim().split(/\s+/)[0]}`
+      : ''
+    return `Root(${container.nodeName.toLowerCase()}${id}${className})`
   }
 
-  try {
-    let hookNode = fiber.memoizedState
-    let hookIndex = 0
-
-    while (hookNode) {
-      const hook: Hook = {
-        id: hookIndex,
-        name: getHookName(hookNode, hookIndex),
-        type: getHookType(hookNode),
-        value: hookNode.memoizedState,
-      }
+  const rendererId = getRendererIdForRoot(root)
+  const renderer = rendererId !== null ? getReactRenderer(rendererId) : null
+  return renderer?.rendererPackageName ? `Root(${renderer.rendererPackageName})` : 'Root'
+}
 
-      // Extract dependencies for useEffect, useMemo, useCallback
-      if (hookNode.deps) {
-        hook.deps = hookNode.deps
-      }
+/**
+ * Checks whether a fiber is a class component instance
+ */
+function isClassComponent(fiber: FiberNode): boolean {
+  return fiber.tag === WorkTag.ClassComponent || fiber.tag === WorkTag.IncompleteClassComponent
+}
 
-      hooks.push(hook)
-      hookNode = hookNode.next
-      hookIndex++
-    }
+// Inspected hooks per hook list. React replaces the list whenever the
+// component renders, so expanding values of a component that hasn't rendered
+// since reuses the last inspection.
+const inspectedHooks = new WeakMap<object, Hook[]>()
+
+/**
+ * Re-renders a component to name its hooks and nest the ones custom hooks
+ * call, falling back to the raw list
+ */
+function extractHooks(fiber: FiberNode): Hook[] {
+  // Hooks without state nodes of their own (useContext) leave a trace in the
+  // fiber's context dependencies only
+  const key = fiber.memoizedState ?? fiber.dependencies?.firstContext
+  if (!key) {
+    return []
   }
-  catch (error) {
-    console.warn('Failed to extract hooks:', error)
+
+  const cached = inspectedHooks.get(key)
+  if (cached) {
+    return cached
   }
 
+  const hooks = inspectHooks(fiber, getRendererForFiber(fiber)?.currentDispatcherRef) ?? listHookNodes(fiber)
+  inspectedHooks.set(key, hooks)
   return hooks
 }
 
 /**
- * Gets the name of a hook
+ * Lists the raw state nodes of a component, guessing their type from their
+ * shape. Used as is in the tree, and for components that couldn't be
+ * re-rendered to inspect them.
  */
-function getHookName(_hookNode: unknown, index: number): string {
-  // This is a simplified implementation
-  // In a real implementation, you'd need to analyze the hook more deeply
-  return `Hook ${index}`
+function listHookNodes(fiber: FiberNode): Hook[] {
+  const hooks: Hook[] = []
+  let hookNode: HookNode | null = fiber.memoizedState
+  let hookIndex = 0
+
+  while (hookNode) {
+    const type = getHookType(hookNode)
+    const effect = type === 'useEffect' ? hookNode.memoizedState as EffectState : null
+    hooks.push({
+      id: hookIndex,
+      name: `Hook ${hookIndex}`,
+      type,
+      value: effect ? effect.create : hookNode.memoizedState,
+      deps: effect?.deps ?? undefined,
+    })
+    hookNode = hookNode.next
+    hookIndex++
+  }
+
+  return hooks
 }
 
 /**
- * Gets the type of a hook
+ * Guesses the type of a hook from its state node
  */
-function getHookType(hookNode: unknown): Hook['type'] {
-  // This is a simplified implementation
-  // In a real implementation, you'd need to analyze the hook structure
-  const node = hookNode as Record<string, unknown>
-
-  if (node && typeof node === 'object' && 'queue' in node) {
+function getHookType(hookNode: HookNode): Hook['type'] {
+  // Every hook has a `queue` field, only state hooks fill it
+  if (hookNode.queue?.lastRenderedReducer) {
     return 'useState'
   }
 
-  if (node && typeof node === 'object' && 'deps' in node) {
+  // Effects keep an effect object with their create function
+  if (typeof (hookNode.memoizedState as Partial<EffectState> | null)?.create === 'function') {
     return 'useEffect'
   }
 
@@ -275,38 +421,39 @@ function getHookType(hookNode: unknown): Hook['type'] {
 }
 
 /**
- * Gets the source location of a component
- */
-function getComponentSource(_fiber: FiberNode) {
-  // This would require source map integration
-  // For now, return undefined
-  return undefined
-}
-
-/**
- * Determines if a fiber should be skipped in the component tree
+ * Gets where a component is defined, as registered by its module when the
+ * plugin transformed it
  */
-function shouldSkipFiber(fiber: FiberNode): boolean {
-  // Skip certain internal React types
-  const skipTypes = [
-    'react.strict_mode',
-    'react.profiler',
-    'react.suspense',
-    'react.fragment',
-  ]
+export function getComponentSource(fiber: FiberNode): ComponentSource | undefined {
+  const sources = getReactDevToolsHook()?.componentSources
+  if (!sources) {
+    return undefined
+  }
 
-  if (fiber.type && typeof fiber.type === 'object' && fiber.type.$$typeof) {
-    const typeString = fiber.type.$$typeof.toString()
-    return skipTypes.some(skipType => typeString.includes(skipType))
+  for (const type of [fiber.type, fiber.elementType]) {
+    if (type && (typeof type === 'function' || typeof type === 'object') && sources.has(type)) {
+      return sources.get(type)
+    }
   }
+  return undefined
+}
 
-  return false
+export interface ReactIntegrationHandlers {
+  /**
+   * Called once React has registered a renderer and the hook is wrapped
+   */
+  onReady?: () => void
+  /**
+   * Called after every commit of a fiber root, with the scheduler priority
+   * it ran at
+   */
+  onCommit: (rendererId: number, root: FiberRoot, priorityLevel?: number) => void
 }
 
 /**
  * Sets up React DevTools hook integration
  */
-export function setupReactIntegration() {
+export function setupReactIntegration(handlers: ReactIntegrationHandlers) {
   if (typeof window === 'undefined') {
     return
   }
@@ -328,13 +475,20 @@ export function setupReactIntegration() {
           }
 
           // Notify our DevTools
-          if (window.__REACT_DEVTOOLS__) {
-            window.__REACT_DEVTOOLS__.send({
-              type: 'FIBER_COMMIT',
-              data: { id, priorityLevel },
-            })
+          handlers.onCommit(id, root, priorityLevel)
+        }
+
+        // Release component IDs as React unmounts their fibers
+        const originalOnCommitFiberUnmount = hook.onCommitFiberUnmount
+        hook.onCommitFiberUnmount = function (id, fiber) {
+          if (originalOnCommitFiberUnmount) {
+            originalOnCommitFiberUnmount.call(this, id, fiber)
           }
+
+          releaseFiberId(fiber)
         }
+
+        handlers.onReady?.()
       }
     }
     else {
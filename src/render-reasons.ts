@@ -0,0 +1,162 @@
+/**
+ * Why did this render?
+ *
+ * Every commit, each component that rendered is compared with its alternate,
+ * the fiber from the previous commit: props are diffed shallowly, state hooks
+ * and class state by identity, and context by the values read during render.
+ * A new props object with nothing changed in it means the parent rendered.
+ * The last few reasons are kept per component for the inspector.
+ */
+
+import { dehydrate } from './dehydrate'
+import { getFiberById, getFiberId } from './fiber-registry'
+import { WorkTag } from './fiber-tags'
+import type { FiberNode, HookNode, RenderReason, RenderReasonProp } from './types'
+
+// Reasons kept per component
+const HISTORY_LIMIT = 20
+// Nodes compared before two values are assumed to differ
+const DEEP_EQUAL_BUDGET = 1000
+
+const history = new Map<number, RenderReason[]>()
+// History size above which unmounted components are dropped
+let pruneThreshold = 500
+
+/**
+ * Records why each component that rendered in a commit did so
+ */
+export function recordRenderReasons(rendered: FiberNode[], commit: number) {
+  const timestamp = Date.now()
+  for (const fiber of rendered) {
+    const componentId = getFiberId(fiber)
+    const reasons = history.get(componentId) || []
+    reasons.push(getRenderReason(fiber, commit, timestamp))
+    if (reasons.length > HISTORY_LIMIT) {
+      reasons.shift()
+    }
+    history.set(componentId, reasons)
+  }
+
+  if (history.size > pruneThreshold) {
+    for (const componentId of history.keys()) {
+      if (!getFiberById(componentId)) {
+        history.delete(componentId)
+      }
+    }
+    pruneThreshold = Math.max(500, history.size * 2)
+  }
+}
+
+/**
+ * Gets the recorded reasons of a component, oldest first
+ */
+export function getRenderReasons(componentId: number): RenderReason[] {
+  return history.get(componentId) || []
+}
+
+/**
+ * Compares a fiber that rendered with the one from the previous commit
+ */
+export function getRenderReason(fiber: FiberNode, commit: number, timestamp: number): RenderReason {
+  const reason: RenderReason = { commit, timestamp, isMount: !fiber.alternate, props: [], hooks: [], state: [], context: false, parent: false }
+  const previous = fiber.alternate
+  if (!previous) {
+    return reason
+  }
+
+  reason.props = diffProps(previous.memoizedProps, fiber.memoizedProps)
+  if (fiber.tag === WorkTag.ClassComponent) {
+    reason.state = diffKeys(previous.memoizedState, fiber.memoizedState)
+  }
+  else {
+    reason.hooks = diffHooks(previous.memoizedState, fiber.memoizedState)
+  }
+  reason.context = didContextChange(previous, fiber)
+  reason.parent = previous.memoizedProps !== fiber.memoizedProps && reason.props.length === 0
+    && reason.hooks.length === 0 && reason.state.length === 0 && !reason.context
+
+  return reason
+}
+
+function diffProps(before: Record<string, unknown> | null, after: Record<string, unknown> | null): RenderReasonProp[] {
+  return diffKeys(before, after).map(name => ({
+    name,
+    before: dehydrate(before?.[name]),
+    after: dehydrate(after?.[name]),
+    deepEqual: isDeepEqual(before?.[name], after?.[name], { remaining: DEEP_EQUAL_BUDGET }),
+  }))
+}
+
+/**
+ * Shallowly compares two objects, returning the keys whose values changed
+ */
+export function diffKeys(before: unknown, after: unknown): string[] {
+  if (before === after) {
+    return []
+  }
+
+  const previous = isObject(before) ? before : {}
+  const next = isObject(after) ? after : {}
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)])
+  return [...keys].filter(key => !Object.is(previous[key], next[key]))
+}
+
+/**
+ * Walks both hook lists together. Only hooks with an update queue hold state
+ * (useState, useReducer, useSyncExternalStore, useTransition...), effects and
+ * memos are recreated or recomputed by the render itself.
+ */
+function diffHooks(before: HookNode | null, after: HookNode | null): number[] {
+  const changed: number[] = []
+  for (let index = 0; before && after; index++, before = before.next, after = after.next) {
+    if (after.queue && !Object.is(before.memoizedState, after.memoizedState)) {
+      changed.push(index)
+    }
+  }
+  return changed
+}
+
+/**
+ * Compares the context values read in this render with the previous ones
+ */
+function didContextChange(previous: FiberNode, fiber: FiberNode): boolean {
+  let before = previous.dependencies?.firstContext
+  let after = fiber.dependencies?.firstContext
+  for (; before && after; before = before.next, after = after.next) {
+    if (before.context !== after.context || !Object.is(before.memoizedValue, after.memoizedValue)) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Structural equality for plain objects and arrays. Anything else compares
+ * by identity, and large values give up once the budget runs out.
+ */
+function isDeepEqual(a: unknown, b: unknown, budget: { remaining: number }): boolean {
+  if (Object.is(a, b)) {
+    return true
+  }
+  if (--budget.remaining < 0 || !isPlainObjectOrArray(a) || !isPlainObjectOrArray(b) || Array.isArray(a) !== Array.isArray(b)) {
+    return false
+  }
+
+  const keys = Object.keys(a)
+  if (keys.length !== Object.keys(b).length) {
+    return false
+  }
+  return keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key], budget))
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object'
+}
+
+function isPlainObjectOrArray(value: unknown): value is Record<string, unknown> {
+  if (!isObject(value)) {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  return Array.isArray(value) || prototype === Object.prototype || prototype === null
+}
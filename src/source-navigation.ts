@@ -4,7 +4,10 @@
 
 import { spawn } from 'node:child_process'
 import { existsSync } from 'node:fs'
-import { join, resolve } from 'node:path'
+import { dirname, join, resolve } from 'node:path'
+import type { SourceMapInput } from '@jridgewell/trace-mapping'
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping'
+import type { ViteDevServer } from 'vite'
 import type { ReactComponent } from './types'
 
 export interface SourceLocation {
@@ -169,7 +172,7 @@ export async function launchEditor(
  * Extracts source location from React component
  */
 export function getComponentSourceLocation(component: ReactComponent): SourceLocation | null {
-  // Try to get source from component's _source property (React DevTools)
+  // Definition location recorded by the plugin's transform hook
   if (component.source) {
     return {
       file: component.source.fileName,
@@ -264,19 +267,81 @@ export function createSourceNavigationHandler(
 }
 
 /**
- * Integrates with Vite's source maps to get accurate source locations
+ * Maps a position in the code Vite served back to the file the developer
+ * wrote. Runtime stack traces point into transformed output, so the position
+ * is traced through the module's source map, which Vite has already combined
+ * across every plugin that transformed it. Returns null when the module isn't
+ * known to the dev server.
  */
 export async function getSourceMapLocation(
+  server: ViteDevServer,
   file: string,
   line: number,
   column: number,
-  // sourceMapUrl?: string,
 ): Promise<SourceLocation | null> {
-  // This would require integration with source-map library
-  // For now, return the original location
-  return {
-    file,
-    line,
-    column,
+  try {
+    // Transform results are cached, so this only transforms modules the
+    // browser hasn't loaded yet
+    const url = toModuleUrl(file)
+    const result = await server.transformRequest(url)
+    const moduleFile = (await server.moduleGraph.getModuleByUrl(url))?.file
+    if (!result || !moduleFile) {
+      return null
+    }
+
+    // Modules no plugin changed come with an empty map
+    if (result.map && 'mappings' in result.map && result.map.mappings) {
+      const original = originalPositionFor(new TraceMap(result.map as SourceMapInput), { line, column: column - 1 })
+      if (original.source && original.line != null) {
+        return {
+          // Sources are relative to the module and keep its query, e.g. `App.tsx?t=123`
+          file: resolve(dirname(moduleFile), cleanUrl(original.source)),
+          line: original.line,
+          column: original.column + 1,
+        }
+      }
+    }
+
+    return { file: moduleFile, line, column }
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Splits a location like `/src/App.tsx?t=123:42:7` into its file and position
+ */
+export function parseLocation(location: string): SourceLocation {
+  const match = /^(.+?):(\d+)(?::(\d+))?$/.exec(location)
+  if (!match) {
+    return { file: location }
   }
+  return { file: match[1], line: Number(match[2]), column: match[3] ? Number(match[3]) : undefined }
+}
+
+/**
+ * Checks whether a file is a URL the dev server served, rather than a path on
+ * disk: a full URL, one with a query, or a root-relative path like `/src/App.tsx`
+ */
+export function isServedUrl(file: string, projectRoot: string): boolean {
+  return /^https?:\/\//.test(file) || file.includes('?') || (file.startsWith('/') && !existsSync(file) && existsSync(join(projectRoot, file)))
+}
+
+/**
+ * Strips the origin from a served URL, Vite's module graph is keyed by the
+ * path the browser requested
+ */
+export function toModuleUrl(file: string): string {
+  try {
+    const url = new URL(file)
+    return url.pathname + url.search
+  }
+  catch {
+    return file
+  }
+}
+
+function cleanUrl(url: string): string {
+  return url.replace(/[?#].*$/, '')
 }
@@ -0,0 +1,205 @@
+/**
+ * Time travel
+ *
+ * The selected and pinned components have every state or props transition
+ * recorded with the commit it belongs to. Snapshots keep the values
+ * themselves rather than dehydrated copies, so restoring one hands the exact
+ * objects back to React through the same overrides as `UPDATE_STATE`.
+ * Each component keeps a ring buffer of its latest snapshots.
+ */
+
+import { dehydrate } from './dehydrate'
+import { getFiberById, getFiberId } from './fiber-registry'
+import { WorkTag } from './fiber-tags'
+import { overrideHookState, overrideState } from './overrides'
+import { diffKeys } from './render-reasons'
+import type { FiberNode, StateSnapshot } from './types'
+
+interface RecordedSnapshot {
+  id: number
+  commit: number
+  timestamp: number
+  props: Record<string, unknown> | null
+  state?: Record<string, unknown> | null
+  hooks: Array<{ index: number, value: unknown }>
+  changes: string[]
+}
+
+interface SnapshotRing {
+  snapshots: RecordedSnapshot[]
+  // Slot the next snapshot goes into once the ring is full
+  next: number
+}
+
+// Snapshots kept per component
+const HISTORY_LIMIT = 50
+
+const histories = new Map<number, SnapshotRing>()
+let nextSnapshotId = 1
+let lastCommit = 0
+
+/**
+ * Sets the components to record. Newly tracked ones start from their current
+ * values, components no longer tracked lose their history.
+ */
+export function setTrackedComponents(componentIds: number[]) {
+  for (const componentId of histories.keys()) {
+    if (!componentIds.includes(componentId)) {
+      histories.delete(componentId)
+    }
+  }
+
+  for (const componentId of componentIds) {
+    const fiber = getFiberById(componentId)
+    if (fiber && !histories.has(componentId)) {
+      const history: SnapshotRing = { snapshots: [], next: 0 }
+      histories.set(componentId, history)
+      recordSnapshot(history, fiber, lastCommit, Date.now())
+    }
+  }
+}
+
+/**
+ * Records the tracked components that rendered in a commit
+ */
+export function recordStateHistory(rendered: FiberNode[], commit: number) {
+  lastCommit = commit
+  if (histories.size === 0) {
+    return
+  }
+
+  const timestamp = Date.now()
+  for (const fiber of rendered) {
+    const history = histories.get(getFiberId(fiber))
+    if (history) {
+      recordSnapshot(history, fiber, commit, timestamp)
+    }
+  }
+}
+
+/**
+ * Gets the recorded snapshots of a component, oldest first
+ */
+export function getStateHistory(componentId: number): StateSnapshot[] {
+  const history = histories.get(componentId)
+  if (!history) {
+    return []
+  }
+
+  return getSnapshots(history).map(snapshot => ({
+    id: snapshot.id,
+    commit: snapshot.commit,
+    timestamp: snapshot.timestamp,
+    props: dehydrate(snapshot.props),
+    state: snapshot.state === undefined ? undefined : dehydrate(snapshot.state),
+    hooks: snapshot.hooks.map(({ index, value }) => ({ index, value: dehydrate(value) })),
+    changes: snapshot.changes,
+  }))
+}
+
+/**
+ * Puts a component's state back to a snapshot: every state hook or class
+ * state key whose value differs is overridden. Props belong to the parent and
+ * are left alone. Returns why it couldn't be restored, or null.
+ */
+export function restoreStateSnapshot(componentId: number, snapshotId: number): string | null {
+  const history = histories.get(componentId)
+  const snapshot = history && getSnapshots(history).find(snapshot => snapshot.id === snapshotId)
+  if (!snapshot) {
+    return 'the snapshot is no longer recorded'
+  }
+
+  const fiber = getFiberById(componentId)
+  if (!fiber) {
+    return 'the component is no longer mounted'
+  }
+
+  const current = captureState(fiber)
+  if (snapshot.state !== undefined) {
+    for (const key of diffKeys(current.state, snapshot.state)) {
+      const error = overrideState(componentId, [key], snapshot.state?.[key])
+      if (error) {
+        return error
+      }
+    }
+  }
+
+  for (const { index, value } of snapshot.hooks) {
+    const hook = current.hooks.find(hook => hook.index === index)
+    if (!hook || !Object.is(hook.value, value)) {
+      const error = overrideHookState(componentId, index, [], value)
+      if (error) {
+        return error
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Adds a snapshot of a fiber when its props or state changed since the last
+ * one, renders from context or a parent alone aren't transitions
+ */
+function recordSnapshot(history: SnapshotRing, fiber: FiberNode, commit: number, timestamp: number) {
+  const previous = getLatestSnapshot(history)
+  const { state, hooks } = captureState(fiber)
+  const props = fiber.memoizedProps
+
+  const changes: string[] = []
+  if (previous) {
+    changes.push(...diffKeys(previous.props, props).map(key => `props.${key}`))
+    if (state !== undefined) {
+      changes.push(...diffKeys(previous.state, state).map(key => `state.${key}`))
+    }
+    for (const hook of hooks) {
+      const before = previous.hooks.find(({ index }) => index === hook.index)
+      if (!before || !Object.is(before.value, hook.value)) {
+        changes.push(`hooks[${hook.index}]`)
+      }
+    }
+    if (changes.length === 0) {
+      return
+    }
+  }
+
+  pushSnapshot(history, { id: nextSnapshotId++, commit, timestamp, props, state, hooks, changes })
+}
+
+/**
+ * Reads the class state, or the values of the hooks `overrideHookState` can
+ * replace: the ones keeping the reducer they last rendered with
+ */
+function captureState(fiber: FiberNode): Pick<RecordedSnapshot, 'state' | 'hooks'> {
+  if (fiber.tag === WorkTag.ClassComponent) {
+    return { state: fiber.memoizedState, hooks: [] }
+  }
+
+  const hooks: RecordedSnapshot['hooks'] = []
+  let hook = fiber.memoizedState
+  for (let index = 0; hook; index++, hook = hook.next) {
+    if (hook.queue?.lastRenderedReducer) {
+      hooks.push({ index, value: hook.memoizedState })
+    }
+  }
+  return { state: undefined, hooks }
+}
+
+function pushSnapshot(history: SnapshotRing, snapshot: RecordedSnapshot) {
+  if (history.snapshots.length < HISTORY_LIMIT) {
+    history.snapshots.push(snapshot)
+    return
+  }
+
+  // Full, overwrite the oldest
+  history.snapshots[history.next] = snapshot
+  history.next = (history.next + 1) % HISTORY_LIMIT
+}
+
+function getLatestSnapshot(history: SnapshotRing): RecordedSnapshot | undefined {
+  const { snapshots, next } = history
+  return snapshots.length > 0 ? snapshots[(next + snapshots.length - 1) % snapshots.length] : undefined
+}
+
+function getSnapshots(history: SnapshotRing): RecordedSnapshot[] {
+  return [...history.snapshots.slice(history.next), ...history.snapshots.slice(0, history.next)]
+}
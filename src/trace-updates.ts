@@ -0,0 +1,189 @@
+/**
+ * Highlight updates
+ *
+ * Flashes the outline of every component that rendered in a commit, like
+ * React DevTools' "Highlight updates when components render". The commit
+ * handler only passes on the fibers that did work, see
+ * `collectRenderedComponents`. Measuring and drawing wait for the next
+ * animation frame and go to a single canvas that ignores pointer events, so
+ * the app's own event handling and layout aren't affected.
+ */
+
+import { getFiberId } from './fiber-registry'
+import { getHostNodes } from './react-detector'
+import type { FiberNode } from './types'
+
+interface Flash {
+  rect: { top: number, left: number, width: number, height: number }
+  // Renders of the component within RENDER_COUNT_WINDOW
+  count: number
+  expiresAt: number
+}
+
+// How long an outline stays on screen
+const FLASH_DURATION = 600
+// Renders counted towards the colour, more than MAX_COUNT renders is hottest
+const RENDER_COUNT_WINDOW = 2000
+const MAX_COUNT = 10
+
+let enabled = false
+let canvas: HTMLCanvasElement | null = null
+let frame: number | undefined
+// Fibers that rendered since the last frame
+let pending: FiberNode[] = []
+// Recent render times per component ID
+const renderTimes = new Map<number, number[]>()
+// Outlines on screen, keyed by their rectangle so nested components that
+// render the same element share one
+const flashes = new Map<string, Flash>()
+
+export function setTraceUpdatesEnabled(value: boolean) {
+  enabled = value
+  if (!enabled) {
+    pending = []
+    renderTimes.clear()
+    flashes.clear()
+    if (frame !== undefined) {
+      cancelAnimationFrame(frame)
+      frame = undefined
+    }
+    canvas?.remove()
+    canvas = null
+  }
+}
+
+/**
+ * Queues the components that rendered in a commit, to be outlined on the
+ * next frame
+ */
+export function traceUpdates(rendered: FiberNode[]) {
+  if (!enabled || rendered.length === 0) {
+    return
+  }
+
+  pending.push(...rendered)
+  scheduleFrame()
+}
+
+function scheduleFrame() {
+  if (frame === undefined) {
+    frame = requestAnimationFrame(drawFrame)
+  }
+}
+
+function drawFrame() {
+  frame = undefined
+  const now = performance.now()
+
+  for (const fiber of pending) {
+    const count = recordRender(getFiberId(fiber), now)
+    for (const node of getHostNodes(fiber)) {
+      if (!(node instanceof Element)) {
+        continue
+      }
+
+      const { top, left, width, height } = node.getBoundingClientRect()
+      if (width === 0 && height === 0) {
+        continue
+      }
+
+      const key = `${top},${left},${width},${height}`
+      const flash = flashes.get(key)
+      flashes.set(key, {
+        rect: { top, left, width, height },
+        count: Math.max(count, flash?.count ?? 0),
+        expiresAt: now + FLASH_DURATION,
+      })
+    }
+  }
+  pending = []
+
+  for (const [key, flash] of flashes) {
+    if (flash.expiresAt <= now) {
+      flashes.delete(key)
+    }
+  }
+
+  draw(now)
+  if (flashes.size > 0) {
+    scheduleFrame()
+    return
+  }
+
+  // Idle again, forget components that haven't rendered in a while
+  for (const [componentId, times] of renderTimes) {
+    if (now - times[times.length - 1] >= RENDER_COUNT_WINDOW) {
+      renderTimes.delete(componentId)
+    }
+  }
+}
+
+/**
+ * Records a render and returns how many the component had recently
+ */
+function recordRender(componentId: number, now: number): number {
+  const times = (renderTimes.get(componentId) || []).filter(time => now - time < RENDER_COUNT_WINDOW)
+  times.push(now)
+  renderTimes.set(componentId, times)
+  return times.length
+}
+
+function draw(now: number) {
+  const context = getCanvas().getContext('2d')
+  if (!context) {
+    return
+  }
+
+  const ratio = window.devicePixelRatio || 1
+  context.setTransform(ratio, 0, 0, ratio, 0, 0)
+  context.clearRect(0, 0, window.innerWidth, window.innerHeight)
+  context.lineWidth = 2
+  context.font = '10px Monaco, Menlo, monospace'
+
+  for (const { rect, count, expiresAt } of flashes.values()) {
+    const color = getFlashColor(count)
+    context.globalAlpha = Math.min(1, (expiresAt - now) / FLASH_DURATION + 0.2)
+    context.strokeStyle = color
+    context.strokeRect(rect.left + 1, rect.top + 1, rect.width - 2, rect.height - 2)
+
+    if (count > 1) {
+      const text = `×${count}`
+      context.fillStyle = color
+      context.fillRect(rect.left, rect.top, context.measureText(text).width + 6, 14)
+      context.fillStyle = '#1e1e1e'
+      context.fillText(text, rect.left + 3, rect.top + 10)
+    }
+  }
+  context.globalAlpha = 1
+}
+
+/**
+ * Goes from teal for an occasional render to red for a component that
+ * renders all the time
+ */
+function getFlashColor(count: number): string {
+  const heat = (Math.min(count, MAX_COUNT) - 1) / (MAX_COUNT - 1)
+  return `hsl(${Math.round(180 * (1 - heat))}, 100%, 50%)`
+}
+
+function getCanvas(): HTMLCanvasElement {
+  if (!canvas) {
+    canvas = document.createElement('canvas')
+    canvas.id = 'react-devtools-trace-updates'
+    canvas.style.cssText = 'position: fixed; top: 0; left: 0; pointer-events: none; z-index: 999995;'
+    document.body.appendChild(canvas)
+  }
+
+  // Match the viewport, which may have been resized or zoomed since the last
+  // frame, at the screen's resolution
+  const ratio = window.devicePixelRatio || 1
+  const width = Math.round(window.innerWidth * ratio)
+  const height = Math.round(window.innerHeight * ratio)
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width
+    canvas.height = height
+    canvas.style.width = `${window.innerWidth}px`
+    canvas.style.height = `${window.innerHeight}px`
+  }
+  return canvas
+}
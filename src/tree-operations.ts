@@ -0,0 +1,266 @@
+/**
+ * Incremental component tree protocol
+ *
+ * The backend keeps a shadow of the tree the panel holds and, after every
+ * commit, diffs the committed fibers against it into mount, unmount, reorder
+ * and update operations. Full snapshots are only sent on connect or when the
+ * panel asks to resync.
+ */
+
+import { getFiberId, releaseFiberId } from './fiber-registry'
+import { WorkTag } from './fiber-tags'
+import { createComponent, getComponentTree, isComponentFiber, toTransportTree } from './react-detector'
+import type { FiberNode, FiberRoot, ReactComponent, TreeOperation } from './types'
+
+/**
+ * ID of the virtual node holding one node per React root
+ */
+export const TREE_ROOT_ID = 0
+
+interface ShadowNode {
+  childIds: number[]
+}
+
+// What the panel currently holds, keyed by component ID
+const shadow = new Map<number, ShadowNode>()
+let revision = 0
+
+/**
+ * Builds a full snapshot of the tree and resets the shadow to match it
+ */
+export function createTreeSnapshot(): { tree: ReactComponent[], revision: number } {
+  shadow.clear()
+
+  const tree = getComponentTree()
+  shadow.set(TREE_ROOT_ID, { childIds: tree.map(component => component.id) })
+  tree.forEach(recordShadow)
+
+  revision++
+  return { tree: toTransportTree(tree), revision }
+}
+
+/**
+ * Gets the revision of the last snapshot operations apply on top of
+ */
+export function getTreeRevision(): number {
+  return revision
+}
+
+/**
+ * Diffs a freshly committed FiberRoot against the shadow
+ */
+export function computeTreeOperations(root: FiberRoot): TreeOperation[] {
+  const operations: TreeOperation[] = []
+  const rootFiber = root.current
+  const id = getFiberId(rootFiber)
+  const roots = shadow.get(TREE_ROOT_ID)
+  if (!roots) {
+    return operations
+  }
+
+  // An unmounted root commits once more with nothing left to render
+  if (rootFiber.memoizedState?.element == null) {
+    if (shadow.has(id)) {
+      unmountShadow(id, operations)
+      roots.childIds = roots.childIds.filter(rootId => rootId !== id)
+    }
+    releaseFiberId(rootFiber)
+    return operations
+  }
+
+  if (!shadow.has(id)) {
+    roots.childIds.push(id)
+  }
+  visitComponent(rootFiber, TREE_ROOT_ID, operations)
+
+  return operations
+}
+
+function recordShadow(component: ReactComponent) {
+  shadow.set(component.id, { childIds: component.children.map(child => child.id) })
+  component.children.forEach(recordShadow)
+}
+
+/**
+ * Walks the children of a fiber, returning the IDs of the nearest components
+ * below it and recording operations for the ones that changed
+ */
+function collectChildren(fiber: FiberNode, parentId: number, operations: TreeOperation[]): number[] {
+  const ids: number[] = []
+
+  let child = fiber.child
+  while (child) {
+    if (isComponentFiber(child)) {
+      ids.push(visitComponent(child, parentId, operations))
+    }
+    else {
+      ids.push(...collectChildren(child, parentId, operations))
+    }
+    child = child.sibling
+  }
+
+  return ids
+}
+
+function visitComponent(fiber: FiberNode, parentId: number, operations: TreeOperation[]): number {
+  const id = getFiberId(fiber)
+  const node = shadow.get(id)
+
+  if (!node) {
+    operations.push({ op: 'mount', id, parentId, component: describe(fiber) })
+    const mounted: ShadowNode = { childIds: [] }
+    shadow.set(id, mounted)
+    mounted.childIds = collectChildren(fiber, id, operations)
+    return id
+  }
+
+  const previous = fiber.alternate
+  // A root's state changes on every commit without anything to show for it
+  if (previous && fiber.tag !== WorkTag.HostRoot && (fiber.memoizedProps !== previous.memoizedProps || fiber.memoizedState !== previous.memoizedState)) {
+    operations.push({ op: 'update', id, component: describe(fiber) })
+  }
+
+  // React reuses the child pointer when a whole subtree bailed out, so there
+  // is nothing below this fiber to diff
+  if (previous && fiber.child === previous.child) {
+    return id
+  }
+
+  const next = collectChildren(fiber, id, operations)
+  const removed = node.childIds.filter(childId => !next.includes(childId))
+  removed.forEach(childId => unmountShadow(childId, operations))
+
+  if (!isSameOrder(expectedOrder(node.childIds, next), next)) {
+    operations.push({ op: 'reorder', id, childIds: next })
+  }
+  node.childIds = next
+
+  return id
+}
+
+function unmountShadow(id: number, operations: TreeOperation[]) {
+  operations.push({ op: 'unmount', id })
+  forgetShadow(id)
+}
+
+function forgetShadow(id: number) {
+  const node = shadow.get(id)
+  shadow.delete(id)
+  node?.childIds.forEach(forgetShadow)
+}
+
+function describe(fiber: FiberNode): ReactComponent {
+  return toTransportTree([createComponent(fiber)])[0]
+}
+
+/**
+ * The order the panel ends up with after applying mounts (appended) and
+ * unmounts (removed) to its previous child list
+ */
+function expectedOrder(previous: number[], next: number[]): number[] {
+  return [
+    ...previous.filter(id => next.includes(id)),
+    ...next.filter(id => !previous.includes(id)),
+  ]
+}
+
+function isSameOrder(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index])
+}
+
+/**
+ * The panel's copy of the component tree
+ */
+export interface ComponentTreeStore {
+  revision: number
+  roots: ReactComponent[]
+  nodes: Map<number, ReactComponent>
+  parents: Map<number, number>
+}
+
+/**
+ * Creates a panel-side store from a full snapshot
+ */
+export function createTreeStore(tree: ReactComponent[], revision: number): ComponentTreeStore {
+  const store: ComponentTreeStore = { revision, roots: tree, nodes: new Map(), parents: new Map() }
+
+  const index = (component: ReactComponent, parentId: number) => {
+    store.nodes.set(component.id, component)
+    store.parents.set(component.id, parentId)
+    component.children.forEach(child => index(child, component.id))
+  }
+  tree.forEach(component => index(component, TREE_ROOT_ID))
+
+  return store
+}
+
+/**
+ * Applies operations to the panel's tree. Returns false when the store is out
+ * of sync with the backend and needs a fresh snapshot.
+ */
+export function applyTreeOperations(store: ComponentTreeStore, operations: TreeOperation[]): boolean {
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'mount': {
+        const siblings = getChildList(store, operation.parentId)
+        if (!siblings) {
+          return false
+        }
+        const component = { ...operation.component, children: [] }
+        store.nodes.set(operation.id, component)
+        store.parents.set(operation.id, operation.parentId)
+        siblings.push(component)
+        break
+      }
+
+      case 'unmount': {
+        const parentId = store.parents.get(operation.id)
+        const siblings = parentId === undefined ? null : getChildList(store, parentId)
+        if (!siblings) {
+          return false
+        }
+        const index = siblings.findIndex(component => component.id === operation.id)
+        if (index !== -1) {
+          siblings.splice(index, 1)
+        }
+        removeFromStore(store, operation.id)
+        break
+      }
+
+      case 'reorder': {
+        const siblings = getChildList(store, operation.id)
+        const children = operation.childIds.map(id => store.nodes.get(id))
+        if (!siblings || children.some(child => !child)) {
+          return false
+        }
+        siblings.splice(0, siblings.length, ...children as ReactComponent[])
+        break
+      }
+
+      case 'update': {
+        const component = store.nodes.get(operation.id)
+        if (!component) {
+          return false
+        }
+        Object.assign(component, operation.component, { children: component.children })
+        break
+      }
+    }
+  }
+
+  return true
+}
+
+function getChildList(store: ComponentTreeStore, id: number): ReactComponent[] | null {
+  if (id === TREE_ROOT_ID) {
+    return store.roots
+  }
+  return store.nodes.get(id)?.children ?? null
+}
+
+function removeFromStore(store: ComponentTreeStore, id: number) {
+  const component = store.nodes.get(id)
+  store.nodes.delete(id)
+  store.parents.delete(id)
+  component?.children.forEach(child => removeFromStore(store, child.id))
+}
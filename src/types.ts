@@ -3,10 +3,15 @@
  */
 
 export interface ReactComponent {
-  id: string
+  id: number
   name: string
+  key?: string
   type: 'function' | 'class' | 'memo' | 'forwardRef' | 'fragment' | 'suspense' | 'provider' | 'consumer'
+    | 'lazy' | 'portal' | 'profiler' | 'activity' | 'root'
+  // Name including wrappers, e.g. `Memo(UserCard)`
   displayName?: string
+  // Wrappers around the component, outermost first
+  badges?: WrapperBadge[]
   props: Record<string, any>
   state?: Record<string, any>
   hooks?: Hook[]
@@ -16,13 +21,135 @@ export interface ReactComponent {
   source?: ComponentSource
 }
 
+export type WrapperBadge = 'Memo' | 'ForwardRef' | 'Lazy'
+
 export interface Hook {
-  id: number
+  // Index in the component's hook list, null for hooks without state of
+  // their own (useContext, use) and custom hooks
+  id: number | null
   name: string
-  type: 'useState' | 'useEffect' | 'useContext' | 'useReducer' | 'useMemo' | 'useCallback' | 'useRef' | 'custom'
+  type: 'useState' | 'useReducer' | 'useEffect' | 'useLayoutEffect' | 'useInsertionEffect' | 'useImperativeHandle'
+    | 'useMemo' | 'useCallback' | 'useRef' | 'useContext' | 'use' | 'useId' | 'useTransition' | 'useDeferredValue'
+    | 'useSyncExternalStore' | 'useActionState' | 'useOptimistic' | 'useEffectEvent' | 'custom'
   value: any
   deps?: any[]
   subHooks?: Hook[]
+  // Where the hook was called, as a location in the module the browser ran
+  hookSource?: ComponentSource
+}
+
+/**
+ * Placeholder for a value JSON can't carry, or one past the dehydration depth
+ */
+export interface DehydratedEnvelope {
+  __dehydrated: true
+  type: 'undefined' | 'number' | 'bigint' | 'symbol' | 'function' | 'date' | 'regexp' | 'error'
+    | 'array_buffer' | 'typed_array' | 'html_element' | 'react_element' | 'circular'
+    | 'map' | 'set' | 'array' | 'object'
+  // Display label, e.g. `handleClick`, `Map(3)` or `<div#root>`
+  name: string
+  preview?: string
+  size?: number
+  // Dehydrated `[key, value]` pairs of a Map, or values of a Set
+  entries?: DehydratedValue[]
+  // Whether the full value can be fetched with INSPECT_ELEMENT
+  inspectable: boolean
+}
+
+export type DehydratedValue =
+  | string
+  | number
+  | boolean
+  | null
+  | DehydratedEnvelope
+  | DehydratedValue[]
+  | { [key: string]: DehydratedValue }
+
+/**
+ * Why a component rendered in a commit
+ */
+export interface RenderReason {
+  // Backend commit counter, shared by every component that rendered together
+  commit: number
+  timestamp: number
+  isMount: boolean
+  // Props whose value changed identity, with dehydrated before/after values
+  props: RenderReasonProp[]
+  // Indexes of state-bearing hooks whose value changed
+  hooks: number[]
+  // Keys of class component state that changed
+  state: string[]
+  context: boolean
+  // New props object with the same contents, the parent rendered
+  parent: boolean
+}
+
+export interface RenderReasonProp {
+  name: string
+  before: DehydratedValue
+  after: DehydratedValue
+  // A new object or array equal to the previous one, which defeats `memo`
+  deepEqual: boolean
+}
+
+/**
+ * A state/props transition of a tracked component, recorded for time travel
+ */
+export interface StateSnapshot {
+  // Addresses the snapshot when restoring it
+  id: number
+  // Commit it was recorded in, same counter as `RenderReason.commit`
+  commit: number
+  timestamp: number
+  props: DehydratedValue
+  // Class component state
+  state?: DehydratedValue
+  // Values of useState/useReducer hooks by hook index
+  hooks: Array<{ index: number, value: DehydratedValue }>
+  // What changed since the previous snapshot, e.g. `props.count`, `hooks[0]`
+  changes: string[]
+}
+
+/**
+ * A named copy of a component subtree, kept by the dev server
+ */
+export interface ComponentSnapshot {
+  id: number
+  name: string
+  createdAt: number
+  // Values are dehydrated deeper than in the tree so nested changes show up
+  tree: ReactComponent
+}
+
+/**
+ * A difference between two subtrees. Paths run from the compared component
+ * through its children to a value, e.g. `Form > Input[key=email] > props.value`
+ */
+export interface SnapshotChange {
+  kind: 'added' | 'removed' | 'changed'
+  path: string
+  // Missing for added and removed components
+  before?: DehydratedValue
+  after?: DehydratedValue
+}
+
+/**
+ * Console output logged while React was rendering or running effects for a
+ * component
+ */
+export interface ConsoleEntry {
+  level: 'error' | 'warn'
+  // Arguments as text, with printf-style substitutions applied
+  message: string
+  timestamp: number
+  // The component React was working on first, then its ancestors
+  componentStack: ComponentStackFrame[]
+}
+
+export interface ComponentStackFrame {
+  id: number
+  name: string
+  source?: ComponentSource
 }
 
 export interface ComponentSource {
@@ -45,15 +172,16 @@ export interface GetComponentTreeMessage extends DevToolsMessage {
 export interface SelectComponentMessage extends DevToolsMessage {
   type: 'SELECT_COMPONENT'
   data: {
-    componentId: string
+    componentId: number
   }
 }
 
 export interface UpdatePropsMessage extends DevToolsMessage {
   type: 'UPDATE_PROPS'
   data: {
-    componentId: string
-    path: string[]
+    componentId: number
+    // Path into the props, e.g. ['user', 'name']
+    path: Array<string | number>
     value: any
   }
 }
@@ -61,8 +189,11 @@ export interface UpdatePropsMessage extends DevToolsMessage {
 export interface UpdateStateMessage extends DevToolsMessage {
   type: 'UPDATE_STATE'
   data: {
-    componentId: string
-    path: string[]
+    componentId: number
+    // Index of the useState/useReducer hook to edit, class state otherwise
+    hookIndex?: number
+    // Path into the state or hook value, e.g. ['filters', 0]
+    path: Array<string | number>
     value: any
   }
 }
@@ -70,10 +201,136 @@ export interface UpdateStateMessage extends DevToolsMessage {
 export interface InspectElementMessage extends DevToolsMessage {
   type: 'INSPECT_ELEMENT'
   data: {
-    componentId: string
+    componentId: number
+    // Path into the component, e.g. ['props', 'user', 'address']
+    path: Array<string | number>
+  }
+}
+
+export interface InspectHooksMessage extends DevToolsMessage {
+  type: 'INSPECT_HOOKS'
+  data: {
+    componentId: number
+  }
+}
+
+export interface StoreAsGlobalMessage extends DevToolsMessage {
+  type: 'STORE_AS_GLOBAL'
+  data: {
+    componentId: number
+    // Path into the component, as for INSPECT_ELEMENT
+    path: Array<string | number>
+  }
+}
+
+export interface HighlightComponentMessage extends DevToolsMessage {
+  type: 'HIGHLIGHT_COMPONENT'
+  data: {
+    componentId: number
+  }
+}
+
+export interface ClearHighlightMessage extends DevToolsMessage {
+  type: 'CLEAR_HIGHLIGHT'
+}
+
+export interface SetTraceUpdatesMessage extends DevToolsMessage {
+  type: 'SET_TRACE_UPDATES'
+  data: {
+    enabled: boolean
+  }
+}
+
+export interface GetHookNamesMessage extends DevToolsMessage {
+  type: 'GET_HOOK_NAMES'
+  data: {
+    sources: ComponentSource[]
+  }
+}
+
+export interface GetRenderReasonsMessage extends DevToolsMessage {
+  type: 'GET_RENDER_REASONS'
+  data: {
+    componentId: number
+  }
+}
+
+export interface TrackStateHistoryMessage extends DevToolsMessage {
+  type: 'TRACK_STATE_HISTORY'
+  data: {
+    // The selected and pinned components, history of the others is dropped
+    componentIds: number[]
+  }
+}
+
+export interface GetStateHistoryMessage extends DevToolsMessage {
+  type: 'GET_STATE_HISTORY'
+  data: {
+    componentId: number
+  }
+}
+
+export interface RestoreStateMessage extends DevToolsMessage {
+  type: 'RESTORE_STATE'
+  data: {
+    componentId: number
+    snapshotId: number
+  }
+}
+
+export interface CaptureSnapshotMessage extends DevToolsMessage {
+  type: 'CAPTURE_SNAPSHOT'
+  data: {
+    componentId: number
+    name: string
+  }
+}
+
+export interface SaveSnapshotMessage extends DevToolsMessage {
+  type: 'SAVE_SNAPSHOT'
+  data: {
+    name: string
+    tree: ReactComponent
+  }
+}
+
+export interface GetSnapshotsMessage extends DevToolsMessage {
+  type: 'GET_SNAPSHOTS'
+}
+
+export interface DeleteSnapshotMessage extends DevToolsMessage {
+  type: 'DELETE_SNAPSHOT'
+  data: {
+    id: number
+  }
+}
+
+export interface GetLiveSnapshotMessage extends DevToolsMessage {
+  type: 'GET_LIVE_SNAPSHOT'
+  data: {
+    componentId: number
   }
 }
 
+export interface StartProfilingMessage extends DevToolsMessage {
+  type: 'START_PROFILING'
+}
+
+export interface StopProfilingMessage extends DevToolsMessage {
+  type: 'STOP_PROFILING'
+}
+
+export interface ProfilerCommitMessage extends DevToolsMessage {
+  type: 'PROFILER_COMMIT'
+  data: {
+    commit: CommitData
+  }
+}
+
+export interface GetProfilingDataMessage extends DevToolsMessage {
+  type: 'GET_PROFILING_DATA'
+}
+
 export interface OpenInEditorMessage extends DevToolsMessage {
   type: 'OPEN_IN_EDITOR'
   data: {
@@ -81,12 +338,43 @@ export interface OpenInEditorMessage extends DevToolsMessage {
   }
 }
 
+export interface OpenSourceMessage extends DevToolsMessage {
+  type: 'OPEN_SOURCE'
+  data: {
+    component?: ReactComponent
+    // A location otherwise, `file` may carry the line and column
+    file?: string
+    line?: number
+    column?: number
+  }
+}
+
 // Server to Client messages
 export interface ComponentTreeMessage extends DevToolsMessage {
   type: 'COMPONENT_TREE'
   data: {
     tree: ReactComponent[]
-    selectedId?: string
+    selectedId?: number
+    revision: number
+  }
+}
+
+/**
+ * A single change to the component tree the panel keeps, in the spirit of
+ * React DevTools' operations array. `parentId` 0 is the virtual tree root.
+ */
+export type TreeOperation =
+  | { op: 'mount', id: number, parentId: number, component: ReactComponent }
+  | { op: 'unmount', id: number }
+  | { op: 'reorder', id: number, childIds: number[] }
+  | { op: 'update', id: number, component: ReactComponent }
+
+export interface TreeOperationsMessage extends DevToolsMessage {
+  type: 'TREE_OPERATIONS'
+  data: {
+    // Snapshot the operations apply on top of
+    revision: number
+    operations: TreeOperation[]
   }
 }
 
@@ -97,10 +385,93 @@ export interface ComponentSelectedMessage extends DevToolsMessage {
   }
 }
 
+export interface InspectedElementMessage extends DevToolsMessage {
+  type: 'INSPECTED_ELEMENT'
+  data: {
+    componentId: number
+    path: Array<string | number>
+    value: DehydratedValue
+  }
+}
+
+export interface InspectedHooksMessage extends DevToolsMessage {
+  type: 'INSPECTED_HOOKS'
+  data: {
+    componentId: number
+    hooks: Hook[]
+  }
+}
+
+export interface UpdateFailedMessage extends DevToolsMessage {
+  type: 'UPDATE_FAILED'
+  data: {
+    componentId: number
+    error: string
+  }
+}
+
+export interface HookNamesMessage extends DevToolsMessage {
+  type: 'HOOK_NAMES'
+  data: {
+    // Variable each hook's result is assigned to, null when it has none
+    names: Array<{ source: ComponentSource, name: string | null }>
+  }
+}
+
+export interface RenderReasonsMessage extends DevToolsMessage {
+  type: 'RENDER_REASONS'
+  data: {
+    componentId: number
+    // Oldest first
+    reasons: RenderReason[]
+  }
+}
+
+export interface StateHistoryMessage extends DevToolsMessage {
+  type: 'STATE_HISTORY'
+  data: {
+    componentId: number
+    // Oldest first
+    snapshots: StateSnapshot[]
+  }
+}
+
+export interface SnapshotsMessage extends DevToolsMessage {
+  type: 'SNAPSHOTS'
+  data: {
+    // Oldest first
+    snapshots: ComponentSnapshot[]
+  }
+}
+
+export interface LiveSnapshotMessage extends DevToolsMessage {
+  type: 'LIVE_SNAPSHOT'
+  data: {
+    componentId: number
+    // null once the component unmounted
+    tree: ReactComponent | null
+  }
+}
+
+export interface ConsoleEntryMessage extends DevToolsMessage {
+  type: 'CONSOLE_ENTRY'
+  data: {
+    entry: ConsoleEntry
+  }
+}
+
+export interface ProfilingDataMessage extends DevToolsMessage {
+  type: 'PROFILING_DATA'
+  data: {
+    // null until something was recorded
+    session: ProfilingSession | null
+  }
+}
+
 export interface ComponentUpdatedMessage extends DevToolsMessage {
   type: 'COMPONENT_UPDATED'
   data: {
-    componentId: string
+    componentId: number
     props?: Record<string, any>
     state?: Record<string, any>
     hooks?: Hook[]
@@ -117,8 +488,8 @@ export interface ErrorMessage extends DevToolsMessage {
 
 // DevTools UI State
 export interface DevToolsUIState {
-  selectedComponentId?: string
-  expandedComponents: Set<string>
+  selectedComponentId?: number
+  expandedComponents: Set<number>
   searchQuery: string
   showHooks: boolean
   showProps: boolean
@@ -146,31 +517,63 @@ export interface EditorConfig {
 }
 
 // Performance profiling types
+
+/**
+ * A component's part in a profiled commit
+ */
 export interface ProfilerData {
-  id: string
+  id: number
   displayName: string
+  type: ReactComponent['type']
+  // 0 for roots
+  parentId: number
+  // Whether it rendered in this commit, or sits in a subtree React skipped
+  didRender: boolean
+  // Time spent rendering it and its descendants, 0 when it didn't render
   actualDuration: number
-  baseDuration: number
-  startTime: number
-  commitTime: number
-  interactions: Set<any>
+  // Time spent in the component itself, without the components below it
+  selfDuration: number
+  // Latest render times of the component itself and its whole subtree,
+  // whether or not it rendered in this commit
+  selfBaseDuration: number
+  treeBaseDuration: number
 }
 
 export interface CommitData {
+  rootId: number
+  // Milliseconds since recording started
   commitTime: number
   duration: number
-  effectDuration: number
-  passiveEffectDuration: number
+  // Only measured by profiling builds of React, null otherwise
+  effectDuration: number | null
+  passiveEffectDuration: number | null
   priorityLevel: string
+  // Components whose updates were committed
   updaters: Array<{
     displayName: string
-    id: string
+    id: number
     type: string
   }>
+  // The components that rendered, their ancestors, and the topmost
+  // components of subtrees that were skipped, parents before children
+  fibers: ProfilerData[]
+}
+
+/**
+ * A recording kept by the dev server
+ */
+export interface ProfilingSession {
+  // Epoch milliseconds when recording started
+  startTime: number
+  recording: boolean
+  commits: CommitData[]
+  // Loaded from a file, its components aren't in this page
+  readOnly?: boolean
 }
 
 // Fiber types (simplified)
 export interface FiberNode {
+  tag: number
   type: any
   key: string | null
   elementType: any
@@ -198,6 +601,38 @@ export interface FiberNode {
   treeBaseDuration?: number
 }
 
+// Root of a mounted tree, as handed to `onCommitFiberRoot`
+export interface FiberRoot {
+  current: FiberNode
+  // The container element passed to createRoot()
+  containerInfo?: unknown
+  // Profiling builds only
+  effectDuration?: number
+  passiveEffectDuration?: number
+  // Components that scheduled the commit, tracked while a DevTools hook is
+  // installed
+  memoizedUpdaters?: Set<FiberNode>
+}
+
+// Entry of a function component's hook list, which starts at the fiber's
+// `memoizedState`
+export interface HookNode {
+  memoizedState: unknown
+  // Update queue of useState and useReducer, null for other hooks
+  queue: { lastRenderedReducer?: unknown } | null
+  next: HookNode | null
+}
+
+// The `memoizedState` of effect hooks
+export interface EffectState {
+  create: () => unknown
+  deps: unknown[] | null
+}
+
+// React's dispatcher holder: React 19's shared internals (dispatcher in `H`)
+// or React 18's `{ current }`
+export type DispatcherRef = { H: unknown } | { current: unknown }
+
 // React DevTools backend types
 export interface ReactDevToolsBackend {
   version: string
@@ -205,16 +640,29 @@ export interface ReactDevToolsBackend {
   findFiberByHostInstance?: (instance: any) => FiberNode | null
   bundleType: number
   getCurrentFiber?: () => FiberNode | null
-  findHostInstancesForFiberID?: (id: string) => any[]
+  findHostInstancesForFiberID?: (id: number) => any[]
   selectNode?: (node: any) => void
+  rendererPackageName?: string
+  currentDispatcherRef?: DispatcherRef
+  // Override API, only present in development builds of React
+  overrideProps?: (fiber: FiberNode, path: Array<string | number>, value: unknown) => void
+  overrideHookState?: (fiber: FiberNode, hookIndex: number, path: Array<string | number>, value: unknown) => void
+  scheduleUpdate?: (fiber: FiberNode) => void
 }
 
 // Hook for React DevTools integration
 export interface ReactDevToolsHook {
   renderers: Map<number, ReactDevToolsBackend>
-  onCommitFiberRoot?: (id: number, root: any, priorityLevel?: any) => void
+  onCommitFiberRoot?: (id: number, root: FiberRoot, priorityLevel?: number) => void
   onCommitFiberUnmount?: (id: number, fiber: FiberNode) => void
   inject?: (renderer: ReactDevToolsBackend) => number
+  // Mounted FiberRoots of a renderer, tracked through onCommitFiberRoot
+  getFiberRoots?: (rendererId: number) => Set<FiberRoot>
+  // Where components are defined, keyed by the function or wrapper object
+  componentSources?: WeakMap<object, ComponentSource>
+  registerComponentSource?: (type: unknown, source: ComponentSource) => void
+  // Called by React around the second render and effect pass of StrictMode
+  setStrictMode?: (rendererId: number, isStrictMode: boolean) => void
   // eslint-disable-next-line ts/no-unsafe-function-type
   checkDCE?: (fn: Function) => void
   supportsFiber?: boolean
@@ -235,3 +683,12 @@ declare global {
     }
   }
 }
+
+// Rollup's parser, behind Vite's `parseAst`, records where every node starts
+// and ends in the code
+declare module 'estree' {
+  interface BaseNode {
+    start: number
+    end: number
+  }
+}
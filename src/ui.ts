@@ -2,7 +2,51 @@
  * DevTools UI components and rendering
  */
 
-import type { ReactComponent } from './types'
+import { PROFILE_API_PATH } from './constants'
+import { diffSnapshots } from './component-snapshots'
+import { isDehydratedEnvelope } from './dehydrate'
+import type { ProfilerChartType } from './profiler-charts'
+import { getDurationColor, renderProfilerChart } from './profiler-charts'
+import type { CommitData, ComponentSnapshot, ComponentSource, ComponentStackFrame, ConsoleEntry, Hook, ProfilerData, ProfilingSession, ReactComponent, RenderReason, StateSnapshot } from './types'
+
+/**
+ * What the inspector shows besides the component's own values
+ */
+export interface InspectorDetails {
+  // Why the component rendered recently, oldest first
+  renderReasons: RenderReason[]
+  // Recorded state transitions, oldest first
+  stateHistory: StateSnapshot[]
+  // Whether the history keeps recording while other components are selected
+  pinned: boolean
+}
+
+// Components the user has collapsed, kept across re-renders of the tree
+const collapsedComponents = new Set<number>()
+
+// Lowercased query of the component search box, applied again to every
+// re-render of the tree
+let componentSearchQuery = ''
+
+// Profiler session shown in the Profiler tab, the commit picked from it and
+// the component picked in its chart
+let profilerSession: ProfilingSession | null = null
+let selectedCommitIndex = 0
+let selectedProfilerId: number | undefined
+let profilerChartType: ProfilerChartType = 'flame'
+
+// Snapshots listed in the Snapshots tab, the selected component as it is now
+// and the two sides being compared, 'live' being that component
+let componentSnapshots: ComponentSnapshot[] = []
+let liveSnapshot: ReactComponent | null = null
+const snapshotComparison: { before?: number, after?: number | 'live' } = {}
+let renderedDiff: { before?: ReactComponent, after?: ReactComponent } = {}
+
+// Oldest and newest console entries last rendered
+let renderedConsole: { first?: ConsoleEntry, last?: ConsoleEntry } | null = null
+
+// Snapshot the state history slider was moved to, the latest one otherwise
+let stateHistoryPosition: { componentId: number, snapshotId: number } | null = null
 
 /**
  * Creates the main DevTools UI
@@ -67,6 +111,32 @@ export function createDevToolsUI(): HTMLElement {
         background: #444;
         border-radius: 2px;
       }
+
+      .devtools-actions {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
+
+      .devtools-action {
+        background: none;
+        border: 1px solid transparent;
+        border-radius: 2px;
+        color: #ccc;
+        cursor: pointer;
+        font-size: 14px;
+        padding: 0 4px;
+        height: 20px;
+      }
+
+      .devtools-action:hover {
+        background: #444;
+      }
+
+      .devtools-action.active {
+        color: #61dafb;
+        border-color: #61dafb;
+      }
       
       .devtools-tabs {
         display: flex;
@@ -152,11 +222,26 @@ export function createDevToolsUI(): HTMLElement {
         font-weight: bold;
       }
       
+      .component-badge {
+        color: #abb2bf;
+        background: #3a3f4b;
+        border-radius: 3px;
+        font-size: 10px;
+        padding: 0 4px;
+      }
+
       .component-props {
         color: #98c379;
         font-size: 11px;
         margin-left: 10px;
       }
+
+      .component-state,
+      .component-hooks {
+        color: #888;
+        font-size: 11px;
+        margin-left: 6px;
+      }
       
       .component-children {
         margin-left: 20px;
@@ -181,215 +266,779 @@ export function createDevToolsUI(): HTMLElement {
         margin-bottom: 8px;
         color: #61dafb;
       }
-      
-      .prop-item {
+
+      .component-info {
+        margin-bottom: 12px;
+      }
+
+      .component-title {
+        display: flex;
+        align-items: center;
+      }
+
+      .component-type {
+        color: #888;
+        font-size: 11px;
+      }
+
+      .hook-subhooks {
+        border-left: 1px solid #333;
+        margin-left: 6px;
+        padding-left: 8px;
+      }
+
+      .hook-item {
         margin-bottom: 4px;
         padding: 2px 0;
       }
-      
-      .prop-key {
+
+      .hook-index {
+        color: #666;
+        margin-right: 6px;
+      }
+
+      .hook-name {
         color: #e06c75;
         font-weight: bold;
       }
-      
-      .prop-value {
+
+      .hook-type {
+        color: #888;
+        font-size: 11px;
+        margin-left: 6px;
+      }
+
+      .hook-value {
         color: #98c379;
-        margin-left: 8px;
+        margin-left: 20px;
       }
       
-      .search-box {
-        width: 100%;
-        padding: 6px;
-        background: #333;
-        border: 1px solid #555;
-        color: #fff;
-        border-radius: 2px;
-        margin-bottom: 10px;
+      .render-reason {
+        margin-bottom: 8px;
       }
-      
-      .search-box:focus {
-        outline: none;
-        border-color: #61dafb;
+
+      .render-reason-commit {
+        color: #888;
+        font-size: 11px;
       }
-      
-      .no-components {
-        text-align: center;
-        color: #666;
-        padding: 20px;
+
+      .render-reason-line {
+        margin-left: 8px;
+        word-break: break-word;
       }
-      
-      .loading {
-        text-align: center;
-        color: #61dafb;
-        padding: 20px;
+
+      .render-reason-warning {
+        color: #e5c07b;
+        margin-left: 8px;
       }
-    </style>
-    
-    <div class="devtools-header">
-      <div class="devtools-title">⚛️ React DevTools</div>
-      <button class="devtools-close" onclick="window.__REACT_DEVTOOLS_UI__.close()">×</button>
-    </div>
-    
-    <div class="devtools-tabs">
-      <button class="devtools-tab active" data-tab="components">Components</button>
-      <button class="devtools-tab" data-tab="profiler">Profiler</button>
-    </div>
-    
-    <div class="devtools-content">
-      <div id="components-tab" class="tab-content">
-        <input type="text" class="search-box" placeholder="Search components..." id="component-search">
-        <div id="component-tree-container">
-          <div class="loading">Loading components...</div>
-        </div>
-        <div id="props-inspector" class="props-inspector" style="display: none;">
-          <div class="props-title">Props</div>
-          <div id="props-content"></div>
-          <div class="props-title" style="margin-top: 15px;">State</div>
-          <div id="state-content"></div>
-          <div class="props-title" style="margin-top: 15px;">Hooks</div>
-          <div id="hooks-content"></div>
-        </div>
-      </div>
-      
-      <div id="profiler-tab" class="tab-content" style="display: none;">
-        <div class="no-components">Profiler coming soon...</div>
-      </div>
-    </div>
-  `
 
-  // Add event listeners
-  setupUIEventListeners(container)
+      .state-history-title {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
 
-  return container
-}
+      .state-history-slider {
+        width: 100%;
+        margin: 0 0 6px;
+      }
 
-/**
- * Sets up event listeners for the DevTools UI
- */
-function setupUIEventListeners(container: HTMLElement) {
-  // Tab switching
-  const tabs = container.querySelectorAll('.devtools-tab')
-  tabs.forEach((tab) => {
-    tab.addEventListener('click', (e) => {
-      const target = e.target as HTMLElement
-      const tabName = target.dataset.tab
-
-      // Update active tab
-      tabs.forEach(t => t.classList.remove('active'))
-      target.classList.add('active')
-
-      // Show/hide tab content
-      const tabContents = container.querySelectorAll('.tab-content')
-      tabContents.forEach((content) => {
-        const contentElement = content as HTMLElement
-        contentElement.style.display = content.id === `${tabName}-tab` ? 'block' : 'none'
-      })
-    })
-  })
+      .state-history-changes {
+        color: #e5c07b;
+        margin-left: 8px;
+        word-break: break-word;
+      }
 
-  // Search functionality
-  const searchBox = container.querySelector('#component-search') as HTMLInputElement
-  if (searchBox) {
-    searchBox.addEventListener('input', (e) => {
-      const query = (e.target as HTMLInputElement).value.toLowerCase()
-      filterComponents(container, query)
-    })
-  }
-}
+      .state-history-restore {
+        margin-top: 6px;
+        font-size: 11px;
+      }
 
-/**
- * Renders the component tree in the UI
- */
-export function renderComponentTree(container: HTMLElement, components: ReactComponent[], selectedId?: string) {
-  const treeContainer = container.querySelector('#component-tree-container')
-  if (!treeContainer)
-    return
+      .console-toolbar {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        margin-bottom: 10px;
+      }
 
-  if (components.length === 0) {
-    treeContainer.innerHTML = '<div class="no-components">No React components found</div>'
-    return
-  }
+      .console-summary {
+        color: #888;
+        font-size: 11px;
+      }
 
-  const treeHTML = components.map(component => renderComponent(component, selectedId)).join('')
-  treeContainer.innerHTML = `<ul class="component-tree">${treeHTML}</ul>`
+      .console-setting {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        margin-left: auto;
+        margin-right: 8px;
+        color: #888;
+        font-size: 11px;
+        cursor: pointer;
+      }
 
-  // Add click handlers
-  const componentItems = treeContainer.querySelectorAll('.component-item')
-  componentItems.forEach((item) => {
-    item.addEventListener('click', (e) => {
-      e.stopPropagation()
-      const componentId = (item as HTMLElement).dataset.componentId
-      if (componentId && window.__REACT_DEVTOOLS__) {
-        window.__REACT_DEVTOOLS__.send({
-          type: 'SELECT_COMPONENT',
-          data: { componentId },
-        })
+      .console-group {
+        margin-bottom: 12px;
       }
-    })
-  })
 
-  // Add source navigation handlers
-  const sourceButtons = treeContainer.querySelectorAll('.component-source-btn')
-  sourceButtons.forEach((button) => {
-    button.addEventListener('click', (e) => {
-      e.stopPropagation()
-      const componentId = (button as HTMLElement).dataset.componentId
-      const component = findComponentById(components, componentId)
+      .console-group-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 4px;
+      }
 
-      if (component && window.__REACT_DEVTOOLS__) {
-        window.__REACT_DEVTOOLS__.send({
-          type: 'OPEN_SOURCE',
-          data: { component },
-        })
+      .console-count {
+        color: #888;
+        font-size: 11px;
       }
-    })
-  })
 
-  // Add toggle handlers for component children
-  const toggles = treeContainer.querySelectorAll('.component-toggle')
-  toggles.forEach((toggle) => {
-    toggle.addEventListener('click', (e) => {
-      e.stopPropagation()
-      const item = (e.target as HTMLElement).closest('.component-item')
-      const children = item?.querySelector('.component-children') as HTMLElement
-      if (children) {
-        const isExpanded = children.style.display !== 'none'
-        children.style.display = isExpanded ? 'none' : 'block'
-        ;(e.target as HTMLElement).textContent = isExpanded ? '▶' : '▼'
+      .console-component {
+        color: #61dafb;
+        cursor: pointer;
       }
-    })
-  })
-}
 
-/**
- * Finds a component by ID in the component tree
- */
-function findComponentById(components: ReactComponent[], id?: string): ReactComponent | null {
-  if (!id)
-    return null
+      .console-source {
+        color: #888;
+        cursor: pointer;
+        font-size: 11px;
+      }
 
-  for (const component of components) {
-    if (component.id === id) {
-      return component
-    }
+      .console-component:hover,
+      .console-source:hover {
+        text-decoration: underline;
+      }
 
-    const found = findComponentById(component.children, id)
-    if (found) {
-      return found
-    }
-  }
+      .console-entry {
+        border-left: 2px solid #e06c75;
+        margin: 0 0 6px 4px;
+        padding-left: 8px;
+      }
 
-  return null
-}
+      .console-entry.console-warn {
+        border-left-color: #e5c07b;
+      }
 
-/**
- * Renders a single component in the tree
- */
-function renderComponent(component: ReactComponent, selectedId?: string, depth = 0): string {
-  const isSelected = component.id === selectedId
-  const hasChildren = component.children.length > 0
+      .console-message {
+        white-space: pre-wrap;
+        word-break: break-word;
+      }
 
-  const propsPreview = Object.keys(component.props).length > 0
+      .console-error .console-message {
+        color: #e06c75;
+      }
+
+      .console-warn .console-message {
+        color: #e5c07b;
+      }
+
+      .console-stack {
+        color: #888;
+        font-size: 11px;
+        margin-left: 8px;
+      }
+
+      .snapshot-toolbar,
+      .snapshot-compare {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 10px;
+      }
+
+      .snapshot-name {
+        flex: 1;
+        min-width: 0;
+        padding: 4px 8px;
+        background: #333;
+        border: 1px solid #555;
+        border-radius: 2px;
+        color: #ccc;
+        font-family: inherit;
+        font-size: 12px;
+      }
+
+      .snapshot-list {
+        margin-bottom: 10px;
+      }
+
+      .snapshot-item {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 2px 4px;
+      }
+
+      .snapshot-meta {
+        flex: 1;
+        color: #888;
+        font-size: 11px;
+      }
+
+      .snapshot-select {
+        flex: 1;
+        min-width: 0;
+        background: #333;
+        border: 1px solid #555;
+        color: #ccc;
+        font-family: inherit;
+        font-size: 11px;
+      }
+
+      .snapshot-diff-table {
+        width: 100%;
+        border-collapse: collapse;
+        table-layout: fixed;
+      }
+
+      .snapshot-diff-table th {
+        color: #888;
+        font-weight: normal;
+        text-align: left;
+      }
+
+      .snapshot-diff-table td {
+        border-top: 1px solid #333;
+        padding: 2px 4px;
+        vertical-align: top;
+        word-break: break-word;
+      }
+
+      .snapshot-change-added .snapshot-path {
+        color: #98c379;
+      }
+
+      .snapshot-change-removed .snapshot-path {
+        color: #e06c75;
+      }
+
+      .snapshot-change-changed .snapshot-path {
+        color: #e5c07b;
+      }
+
+      .profiler-toolbar {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 10px;
+      }
+
+      .profiler-record.active {
+        color: #e06c75;
+        border-color: #e06c75;
+      }
+
+      .profiler-file-action {
+        display: inline-flex;
+        align-items: center;
+        font-size: 11px;
+        text-decoration: none;
+      }
+
+      .profiler-status.error {
+        color: #e06c75;
+      }
+
+      .profiler-status {
+        color: #888;
+        font-size: 11px;
+      }
+
+      .profiler-commits {
+        display: flex;
+        align-items: flex-end;
+        gap: 1px;
+        height: 40px;
+        overflow-x: auto;
+        margin-bottom: 10px;
+        border-bottom: 1px solid #333;
+      }
+
+      .profiler-commit-bar {
+        flex: 0 0 8px;
+        cursor: pointer;
+        opacity: 0.6;
+      }
+
+      .profiler-commit-bar:hover,
+      .profiler-commit-bar.selected {
+        opacity: 1;
+      }
+
+      .profiler-commit-bar.selected {
+        outline: 1px solid #fff;
+      }
+
+      .profiler-views {
+        display: flex;
+        gap: 4px;
+        margin: 10px 0 6px;
+      }
+
+      .profiler-view {
+        background: none;
+        border: 1px solid #444;
+        border-radius: 2px;
+        color: #ccc;
+        cursor: pointer;
+        font: inherit;
+        font-size: 11px;
+        padding: 2px 8px;
+      }
+
+      .profiler-view.active {
+        color: #61dafb;
+        border-color: #61dafb;
+      }
+
+      .profiler-chart {
+        height: 260px;
+        overflow-y: auto;
+        overflow-x: hidden;
+        border: 1px solid #333;
+      }
+
+      .profiler-history {
+        margin-top: 10px;
+      }
+
+      .profiler-history-item {
+        cursor: pointer;
+        padding: 2px 4px;
+      }
+
+      .profiler-history-item:hover {
+        background: #333;
+      }
+
+      .profiler-history-item.selected {
+        background: #094771;
+      }
+
+      .prop-item {
+        margin-bottom: 4px;
+        padding: 2px 0;
+      }
+      
+      .prop-key {
+        color: #e06c75;
+        font-weight: bold;
+      }
+
+      .prop-store-global {
+        float: right;
+        visibility: hidden;
+        background: none;
+        border: none;
+        color: #888;
+        cursor: pointer;
+        font-size: 11px;
+        padding: 0 4px;
+      }
+
+      .prop-item:hover > .prop-store-global {
+        visibility: visible;
+      }
+
+      .prop-store-global:hover {
+        color: #61dafb;
+      }
+      
+      .prop-value {
+        color: #98c379;
+        margin-left: 8px;
+      }
+
+      .prop-children {
+        margin-left: 16px;
+      }
+
+      .prop-inspectable {
+        cursor: pointer;
+      }
+
+      .prop-inspectable:hover {
+        text-decoration: underline;
+      }
+
+      .prop-editable {
+        cursor: text;
+      }
+
+      .prop-editable:hover {
+        background: #333;
+      }
+
+      .prop-edit-json {
+        background: none;
+        border: none;
+        color: #888;
+        cursor: pointer;
+        font-size: 11px;
+      }
+
+      .prop-editor {
+        background: #333;
+        border: 1px solid #61dafb;
+        color: #fff;
+        font: inherit;
+        margin-left: 8px;
+        padding: 0 4px;
+      }
+
+      .prop-editor.invalid {
+        border-color: #e06c75;
+      }
+
+      .inspector-status {
+        background: #3b2226;
+        border-left: 3px solid #e06c75;
+        color: #e06c75;
+        font-size: 11px;
+        margin-bottom: 8px;
+        padding: 4px 8px;
+      }
+
+      .prop-function,
+      .prop-symbol,
+      .prop-circular,
+      .prop-undefined {
+        color: #c678dd;
+      }
+      
+      .search-box {
+        width: 100%;
+        padding: 6px;
+        background: #333;
+        border: 1px solid #555;
+        color: #fff;
+        border-radius: 2px;
+        margin-bottom: 10px;
+      }
+      
+      .search-box:focus {
+        outline: none;
+        border-color: #61dafb;
+      }
+      
+      .no-components {
+        text-align: center;
+        color: #666;
+        padding: 20px;
+      }
+      
+      .loading {
+        text-align: center;
+        color: #61dafb;
+        padding: 20px;
+      }
+    </style>
+    
+    <div class="devtools-header">
+      <div class="devtools-title">⚛️ React DevTools</div>
+      <div class="devtools-actions">
+        <button class="devtools-action devtools-trace-updates" title="Highlight updates when components render">◎</button>
+        <button class="devtools-action devtools-picker" title="Select an element in the page to inspect it (Alt+Shift+P)">⌖</button>
+        <button class="devtools-close" onclick="window.__REACT_DEVTOOLS_UI__.close()">×</button>
+      </div>
+    </div>
+    
+    <div class="devtools-tabs">
+      <button class="devtools-tab active" data-tab="components">Components</button>
+      <button class="devtools-tab" data-tab="profiler">Profiler</button>
+      <button class="devtools-tab" data-tab="snapshots">Snapshots</button>
+      <button class="devtools-tab" data-tab="console">Console</button>
+    </div>
+    
+    <div class="devtools-content">
+      <div id="components-tab" class="tab-content">
+        <input type="text" class="search-box" placeholder="Search components..." id="component-search">
+        <div id="component-tree-container">
+          <div class="loading">Loading components...</div>
+        </div>
+        <div id="props-inspector" class="props-inspector" style="display: none;">
+          <div class="component-info"></div>
+          <div id="inspector-status" class="inspector-status" style="display: none;"></div>
+          <div class="props-title">Props</div>
+          <div id="props-content"></div>
+          <div class="props-title" style="margin-top: 15px;">State</div>
+          <div id="state-content"></div>
+          <div class="props-title" style="margin-top: 15px;">Hooks</div>
+          <div id="hooks-content"></div>
+          <div class="props-title" style="margin-top: 15px;">Why did this render?</div>
+          <div id="render-reasons-content"></div>
+          <div class="props-title state-history-title" style="margin-top: 15px;">
+            State history
+            <button class="devtools-action state-history-pin" title="Keep recording this component while others are selected">📌</button>
+          </div>
+          <div id="state-history-content"></div>
+        </div>
+      </div>
+      
+      <div id="profiler-tab" class="tab-content" style="display: none;">
+        <div class="profiler-toolbar">
+          <button class="devtools-action profiler-record" title="Start profiling">●</button>
+          <a class="devtools-action profiler-file-action profiler-export" href="${PROFILE_API_PATH}" download style="display: none;" title="Export a trace for Chrome's Performance panel and Perfetto">⤓ Trace</a>
+          <button class="devtools-action profiler-file-action profiler-import" title="Load an exported React DevTools profile, read-only">⤒ Import</button>
+          <input type="file" class="profiler-import-file" accept=".json,application/json" style="display: none;">
+          <span class="profiler-status"></span>
+        </div>
+        <div class="profiler-commits"></div>
+        <div class="profiler-commit-details"></div>
+        <div class="profiler-views" style="display: none;">
+          <button class="profiler-view active" data-view="flame">Flame graph</button>
+          <button class="profiler-view" data-view="ranked">Ranked</button>
+        </div>
+        <div class="profiler-chart" style="display: none;"></div>
+        <div class="profiler-history"></div>
+      </div>
+
+      <div id="snapshots-tab" class="tab-content" style="display: none;">
+        <div class="snapshot-toolbar">
+          <input type="text" class="snapshot-name" placeholder="Snapshot name">
+          <button class="devtools-action profiler-file-action snapshot-take" title="Save the selected component and everything below it">📷 Snapshot</button>
+        </div>
+        <div class="snapshot-list"></div>
+        <div class="snapshot-compare" style="display: none;">
+          <select class="snapshot-select snapshot-before" title="Compare from"></select>
+          <span>→</span>
+          <select class="snapshot-select snapshot-after" title="Compare to"></select>
+          <button class="devtools-action snapshot-refresh" title="Read the selected component again">↻</button>
+        </div>
+        <div class="snapshot-diff"></div>
+      </div>
+
+      <div id="console-tab" class="tab-content" style="display: none;">
+        <div class="console-toolbar">
+          <span class="console-summary"></span>
+          <label class="console-setting" title="StrictMode renders components and runs effects twice, logs of the second pass are dimmed otherwise">
+            <input type="checkbox" class="console-hide-strict-mode"> Hide logs during second render in StrictMode
+          </label>
+          <button class="devtools-action profiler-file-action console-clear" title="Clear the collected messages">Clear</button>
+        </div>
+        <div class="console-groups"></div>
+      </div>
+    </div>
+  `
+
+  // Add event listeners
+  setupUIEventListeners(container)
+
+  return container
+}
+
+/**
+ * Sets up event listeners for the DevTools UI
+ */
+function setupUIEventListeners(container: HTMLElement) {
+  // Tab switching
+  container.querySelectorAll('.devtools-tab').forEach((tab) => {
+    tab.addEventListener('click', () => showTab(container, (tab as HTMLElement).dataset.tab || 'components'))
+  })
+
+  // Profiler chart switching
+  const views = container.querySelectorAll('.profiler-view')
+  views.forEach((view) => {
+    view.addEventListener('click', () => {
+      profilerChartType = (view as HTMLElement).dataset.view as ProfilerChartType
+      views.forEach(v => v.classList.toggle('active', v === view))
+      renderCommitSelector(container)
+    })
+  })
+
+  // Snapshot comparison
+  const compareBefore = container.querySelector('.snapshot-before') as HTMLSelectElement | null
+  const compareAfter = container.querySelector('.snapshot-after') as HTMLSelectElement | null
+  compareBefore?.addEventListener('change', () => {
+    snapshotComparison.before = Number(compareBefore.value)
+    renderSnapshotDiff(container)
+  })
+  compareAfter?.addEventListener('change', () => {
+    snapshotComparison.after = compareAfter.value === 'live' ? 'live' : Number(compareAfter.value)
+    renderSnapshotDiff(container)
+  })
+
+  // Search functionality
+  const searchBox = container.querySelector('#component-search') as HTMLInputElement
+  if (searchBox) {
+    searchBox.addEventListener('input', (e) => {
+      componentSearchQuery = (e.target as HTMLInputElement).value.toLowerCase()
+      filterComponents(container, componentSearchQuery)
+    })
+  }
+}
+
+/**
+ * Switches the panel to a tab
+ */
+function showTab(container: HTMLElement, tabName: string) {
+  container.querySelectorAll('.devtools-tab').forEach((tab) => {
+    tab.classList.toggle('active', (tab as HTMLElement).dataset.tab === tabName)
+  })
+  container.querySelectorAll('.tab-content').forEach((content) => {
+    (content as HTMLElement).style.display = content.id === `${tabName}-tab` ? 'block' : 'none'
+  })
+}
+
+/**
+ * Renders the component tree in the UI
+ */
+export function renderComponentTree(container: HTMLElement, components: ReactComponent[], selectedId?: number) {
+  const treeContainer = container.querySelector('#component-tree-container')
+  if (!treeContainer)
+    return
+
+  if (components.length === 0) {
+    treeContainer.innerHTML = '<div class="no-components">No React components found</div>'
+    return
+  }
+
+  const treeHTML = components.map(component => renderComponent(component, selectedId)).join('')
+  treeContainer.innerHTML = `<ul class="component-tree">${treeHTML}</ul>`
+  if (componentSearchQuery)
+    filterComponents(container, componentSearchQuery)
+
+  // Add click handlers
+  const componentItems = treeContainer.querySelectorAll('.component-item')
+  componentItems.forEach((item) => {
+    item.addEventListener('click', (e) => {
+      e.stopPropagation()
+      const componentId = Number((item as HTMLElement).dataset.componentId)
+      if (componentId && window.__REACT_DEVTOOLS__) {
+        window.__REACT_DEVTOOLS__.send({
+          type: 'SELECT_COMPONENT',
+          data: { componentId },
+        })
+      }
+    })
+  })
+
+  // Highlight the hovered component in the page
+  treeContainer.querySelectorAll('.component-header').forEach((header) => {
+    header.addEventListener('mouseenter', () => {
+      const componentId = Number((header.parentElement as HTMLElement).dataset.componentId)
+      if (componentId && window.__REACT_DEVTOOLS__) {
+        window.__REACT_DEVTOOLS__.send({
+          type: 'HIGHLIGHT_COMPONENT',
+          data: { componentId },
+        })
+      }
+    })
+  })
+  treeContainer.querySelector('.component-tree')?.addEventListener('mouseleave', () => {
+    window.__REACT_DEVTOOLS__?.send({ type: 'CLEAR_HIGHLIGHT' })
+  })
+
+  // Add source navigation handlers
+  const sourceButtons = treeContainer.querySelectorAll('.component-source-btn')
+  sourceButtons.forEach((button) => {
+    button.addEventListener('click', (e) => {
+      e.stopPropagation()
+      const componentId = Number((button as HTMLElement).dataset.componentId)
+      const component = findComponentById(components, componentId)
+
+      if (component && window.__REACT_DEVTOOLS__) {
+        window.__REACT_DEVTOOLS__.send({
+          type: 'OPEN_SOURCE',
+          data: { component },
+        })
+      }
+    })
+  })
+
+  // Add toggle handlers for component children
+  const toggles = treeContainer.querySelectorAll('.component-toggle')
+  toggles.forEach((toggle) => {
+    toggle.addEventListener('click', (e) => {
+      e.stopPropagation()
+      const item = (e.target as HTMLElement).closest('.component-item') as HTMLElement | null
+      const children = item?.querySelector('.component-children') as HTMLElement
+      if (item && children) {
+        const isExpanded = children.style.display !== 'none'
+        children.style.display = isExpanded ? 'none' : 'block'
+        ;(e.target as HTMLElement).textContent = isExpanded ? '▶' : '▼'
+
+        const componentId = Number(item.dataset.componentId)
+        if (isExpanded) {
+          collapsedComponents.add(componentId)
+        }
+        else {
+          collapsedComponents.delete(componentId)
+        }
+      }
+    })
+  })
+}
+
+/**
+ * Shows the picker button as pressed while the element picker is active
+ */
+export function setPickerActive(container: HTMLElement, active: boolean) {
+  container.querySelector('.devtools-picker')?.classList.toggle('active', active)
+}
+
+/**
+ * Shows the highlight updates button as pressed while updates are traced
+ */
+export function setTraceUpdatesActive(container: HTMLElement, active: boolean) {
+  container.querySelector('.devtools-trace-updates')?.classList.toggle('active', active)
+}
+
+/**
+ * Reflects the setting for hiding StrictMode's repeated logs in the Console tab
+ */
+export function setHideStrictModeLogsChecked(container: HTMLElement, checked: boolean) {
+  const checkbox = container.querySelector('.console-hide-strict-mode') as HTMLInputElement | null
+  if (checkbox) {
+    checkbox.checked = checked
+  }
+}
+
+/**
+ * Expands collapsed components, so a component below them shows up in the tree
+ */
+export function expandComponents(componentIds: number[]) {
+  componentIds.forEach(id => collapsedComponents.delete(id))
+}
+
+/**
+ * Scrolls the tree to a component
+ */
+export function scrollComponentIntoView(container: HTMLElement, componentId: number) {
+  const item = container.querySelector(`#component-tree-container .component-item[data-component-id="${componentId}"] > .component-header`)
+  item?.scrollIntoView({ block: 'nearest' })
+}
+
+/**
+ * Finds a component by ID in the component tree
+ */
+function findComponentById(components: ReactComponent[], id?: number): ReactComponent | null {
+  if (id === undefined)
+    return null
+
+  for (const component of components) {
+    if (component.id === id) {
+      return component
+    }
+
+    const found = findComponentById(component.children, id)
+    if (found) {
+      return found
+    }
+  }
+
+  return null
+}
+
+/**
+ * Renders a single component in the tree
+ */
+function renderComponent(component: ReactComponent, selectedId?: number, depth = 0): string {
+  const isSelected = component.id === selectedId
+  const hasChildren = component.children.length > 0
+  const isCollapsed = collapsedComponents.has(component.id)
+
+  const propsPreview = Object.keys(component.props).length > 0
     ? `<span class="component-props">{${Object.keys(component.props).slice(0, 3).join(', ')}${Object.keys(component.props).length > 3 ? '...' : ''}}</span>`
     : ''
 
@@ -402,39 +1051,396 @@ function renderComponent(component: ReactComponent, selectedId?: string, depth =
     ? `<span class="component-hooks">hooks: ${hooks.length}</span>`
     : ''
 
-  return `
-    <div class="component-item ${isSelected ? 'selected' : ''}" data-component-id="${component.id}" style="margin-left: ${depth * 20}px;">
-      <div class="component-header">
-        ${hasChildren ? `<span class="component-toggle">▼</span>` : '<span class="component-spacer"></span>'}
-        <span class="component-name">${component.displayName || component.name}</span>
-        <button class="component-source-btn" data-component-id="${component.id}" title="Open in editor">📝</button>
-        ${propsPreview}
-        ${statePreview}
-        ${hooksPreview}
+  return `
+    <div class="component-item ${isSelected ? 'selected' : ''}" data-component-id="${component.id}" style="margin-left: ${depth * 20}px;">
+      <div class="component-header">
+        ${hasChildren ? `<span class="component-toggle">${isCollapsed ? '▶' : '▼'}</span>` : '<span class="component-spacer"></span>'}
+        <span class="component-name" title="${escapeHtml(component.displayName || component.name)}">${escapeHtml(component.name)}</span>
+        ${(component.badges || []).map(badge => `<span class="component-badge">${badge}</span>`).join('')}
+        <button class="component-source-btn" data-component-id="${component.id}" title="Open in editor">📝</button>
+        ${propsPreview}
+        ${statePreview}
+        ${hooksPreview}
+      </div>
+      ${hasChildren
+        ? `
+        <div class="component-children"${isCollapsed ? ' style="display: none;"' : ''}>
+          ${component.children.map(child => renderComponent(child, selectedId, depth + 1)).join('')}
+        </div>
+      `
+        : ''}
+    </div>
+  `
+}
+
+/**
+ * Renders the Profiler tab: the record button, and once a recording stopped
+ * its commits as bars sized by render duration to pick one from
+ */
+export function renderProfiler(container: HTMLElement, session: ProfilingSession | null, recording: boolean, recordedCommits: number) {
+  const record = container.querySelector('.profiler-record')
+  record?.classList.toggle('active', recording)
+  record?.setAttribute('title', recording ? 'Stop profiling' : 'Start profiling')
+
+  const status = container.querySelector('.profiler-status')
+  if (status) {
+    const commits = `${session?.commits.length} commit${session?.commits.length === 1 ? '' : 's'}`
+    status.classList.remove('error')
+    status.textContent = recording
+      ? `Recording... ${recordedCommits} commit${recordedCommits === 1 ? '' : 's'}`
+      : session?.readOnly
+        ? `${commits} imported, read-only`
+        : session
+          ? `${commits} recorded`
+          : 'Click ● to record the commits of an interaction'
+  }
+
+  // The export comes from the dev server's copy of the session
+  const canExport = !recording && !!session && !session.readOnly && session.commits.length > 0
+  const exportLink = container.querySelector('.profiler-export') as HTMLElement | null
+  if (exportLink) {
+    exportLink.style.display = canExport ? '' : 'none'
+  }
+
+  const shown = recording ? null : session
+  if (shown !== profilerSession) {
+    profilerSession = shown
+    selectedCommitIndex = 0
+    selectedProfilerId = undefined
+    renderCommitSelector(container)
+  }
+}
+
+function renderCommitSelector(container: HTMLElement) {
+  const commitsContainer = container.querySelector('.profiler-commits') as HTMLElement | null
+  const details = container.querySelector('.profiler-commit-details')
+  const views = container.querySelector('.profiler-views') as HTMLElement | null
+  const chart = container.querySelector('.profiler-chart') as HTMLElement | null
+  const history = container.querySelector('.profiler-history')
+  if (!commitsContainer || !details || !views || !chart || !history)
+    return
+
+  const commits = profilerSession?.commits || []
+  commitsContainer.style.display = commits.length > 0 ? 'flex' : 'none'
+  views.style.display = commits.length > 0 ? 'flex' : 'none'
+  chart.style.display = commits.length > 0 ? 'block' : 'none'
+  if (commits.length === 0) {
+    commitsContainer.innerHTML = ''
+    details.innerHTML = profilerSession ? '<div class="no-components">No commits were recorded</div>' : ''
+    history.innerHTML = ''
+    return
+  }
+
+  const maxDuration = Math.max(...commits.map(commit => commit.duration), 0.1)
+  commitsContainer.innerHTML = commits.map((commit, index) => {
+    const ratio = Math.min(1, commit.duration / maxDuration)
+    return `<div class="profiler-commit-bar${index === selectedCommitIndex ? ' selected' : ''}" data-index="${index}"
+      style="height: ${Math.max(5, ratio * 100)}%; background: ${getDurationColor(ratio)};"
+      title="Commit ${index + 1}: ${formatDuration(commit.duration)}"></div>`
+  }).join('')
+
+  commitsContainer.querySelectorAll('.profiler-commit-bar').forEach((bar) => {
+    bar.addEventListener('click', () => {
+      selectedCommitIndex = Number((bar as HTMLElement).dataset.index)
+      renderCommitSelector(container)
+    })
+  })
+
+  details.innerHTML = renderCommitDetails(commits[selectedCommitIndex], selectedCommitIndex, commits.length)
+
+  renderProfilerChart(chart, {
+    type: profilerChartType,
+    commit: commits[selectedCommitIndex],
+    selectedId: selectedProfilerId,
+    onSelect: (fiber) => {
+      selectedProfilerId = fiber.id
+      // Imported components don't exist in this page
+      if (!profilerSession?.readOnly) {
+        window.__REACT_DEVTOOLS__?.send({ type: 'SELECT_COMPONENT', data: { componentId: fiber.id } })
+      }
+      renderCommitSelector(container)
+    },
+  })
+
+  history.innerHTML = selectedProfilerId !== undefined ? renderRenderHistory(commits, selectedProfilerId) : ''
+  history.querySelectorAll('.profiler-history-item').forEach((item) => {
+    item.addEventListener('click', () => {
+      selectedCommitIndex = Number((item as HTMLElement).dataset.index)
+      renderCommitSelector(container)
+    })
+  })
+}
+
+/**
+ * Lists the commits of the session the component rendered in
+ */
+function renderRenderHistory(commits: CommitData[], componentId: number): string {
+  let name = ''
+  const renders: Array<{ index: number, fiber: ProfilerData }> = []
+  commits.forEach((commit, index) => {
+    const fiber = commit.fibers.find(fiber => fiber.id === componentId)
+    name ||= fiber?.displayName || ''
+    if (fiber?.didRender) {
+      renders.push({ index, fiber })
+    }
+  })
+
+  const items = renders.map(({ index, fiber }) => `
+    <div class="profiler-history-item${index === selectedCommitIndex ? ' selected' : ''}" data-index="${index}">
+      Commit ${index + 1} at ${formatDuration(commits[index].commitTime)}:
+      ${formatDuration(fiber.actualDuration)} (self ${formatDuration(fiber.selfDuration)})
+    </div>
+  `).join('')
+  return `
+    <div class="props-title">${escapeHtml(name)} rendered ${renders.length} time${renders.length === 1 ? '' : 's'}</div>
+    ${items}
+  `
+}
+
+function renderCommitDetails(commit: CommitData, index: number, count: number): string {
+  const rendered = commit.fibers.filter(fiber => fiber.didRender).length
+  const rows: Array<[string, string]> = [
+    ['Commit', `${index + 1} of ${count} at ${formatDuration(commit.commitTime)}`],
+    ['Render duration', formatDuration(commit.duration)],
+  ]
+  if (commit.effectDuration !== null) {
+    rows.push(['Layout effects', formatDuration(commit.effectDuration)])
+  }
+  if (commit.passiveEffectDuration !== null) {
+    rows.push(['Passive effects', formatDuration(commit.passiveEffectDuration)])
+  }
+  rows.push(
+    ['Priority', commit.priorityLevel],
+    ['Rendered', `${rendered} component${rendered === 1 ? '' : 's'}`],
+    ['Updated by', commit.updaters.length > 0 ? commit.updaters.map(updater => updater.displayName).join(', ') : 'Unknown'],
+  )
+
+  return rows.map(([label, value]) => `
+    <div class="prop-item">
+      <span class="prop-key">${label}:</span>
+      <span class="prop-value">${escapeHtml(value)}</span>
+    </div>
+  `).join('')
+}
+
+function formatDuration(milliseconds: number): string {
+  return milliseconds >= 1000 ? `${(milliseconds / 1000).toFixed(2)}s` : `${milliseconds.toFixed(1)}ms`
+}
+
+/**
+ * Renders the Console tab: messages attributed to components, grouped by the
+ * component that logged them, the most recently active first. Names select
+ * the component in the tree and locations open its source.
+ */
+export function renderConsole(container: HTMLElement, entries: ConsoleEntry[]) {
+  const summary = container.querySelector('.console-summary')
+  const groupsContainer = container.querySelector('.console-groups') as HTMLElement | null
+  if (!summary || !groupsContainer)
+    return
+
+  // Entries are only appended, dropped from the front or cleared
+  const first = entries[0]
+  const last = entries[entries.length - 1]
+  if (renderedConsole && renderedConsole.first === first && renderedConsole.last === last)
+    return
+  renderedConsole = { first, last }
+
+  const groups = new Map<number, { frame: ComponentStackFrame, entries: ConsoleEntry[] }>()
+  for (const entry of entries) {
+    const frame = entry.componentStack[0]
+    const group = groups.get(frame.id)
+    if (group) {
+      group.entries.push(entry)
+    }
+    else {
+      groups.set(frame.id, { frame, entries: [entry] })
+    }
+  }
+
+  summary.textContent = entries.length > 0
+    ? `${countLevels(entries)} from ${groups.size} component${groups.size === 1 ? '' : 's'}`
+    : 'Errors and warnings logged while components render or run effects show up here'
+
+  groupsContainer.innerHTML = [...groups.values()].reverse().map(({ frame, entries }) => `
+    <div class="console-group">
+      <div class="console-group-header">
+        ${renderStackFrame(frame)}
+        <span class="console-count">${countLevels(entries)}</span>
       </div>
-      ${hasChildren
-        ? `
-        <div class="component-children">
-          ${component.children.map(child => renderComponent(child, selectedId, depth + 1)).join('')}
+      ${[...entries].reverse().map(entry => `
+        <div class="console-entry console-${entry.level}">
+          <div class="console-message">${escapeHtml(entry.message)}</div>
+          <div class="console-stack">
+            ${new Date(entry.timestamp).toLocaleTimeString()}
+            ${entry.componentStack.map(frame => `<div>at ${renderStackFrame(frame)}</div>`).join('')}
+          </div>
         </div>
-      `
-        : ''}
+      `).join('')}
     </div>
+  `).join('')
+
+  groupsContainer.querySelectorAll('.console-component').forEach((name) => {
+    name.addEventListener('click', () => {
+      window.__REACT_DEVTOOLS__?.send({ type: 'SELECT_COMPONENT', data: { componentId: Number((name as HTMLElement).dataset.id) } })
+      showTab(container, 'components')
+    })
+  })
+  groupsContainer.querySelectorAll('.console-source').forEach((location) => {
+    location.addEventListener('click', () => {
+      const source: ComponentSource = JSON.parse((location as HTMLElement).dataset.source || '{}')
+      window.__REACT_DEVTOOLS__?.send({
+        type: 'OPEN_SOURCE',
+        data: { file: source.fileName, line: source.lineNumber, column: source.columnNumber },
+      })
+    })
+  })
+}
+
+function renderStackFrame(frame: ComponentStackFrame): string {
+  const name = `<span class="console-component" data-id="${frame.id}" title="Select in the tree">${escapeHtml(frame.name)}</span>`
+  if (!frame.source) {
+    return name
+  }
+  const fileName = frame.source.fileName.split('/').pop()
+  return `${name} <span class="console-source" data-source="${escapeHtml(JSON.stringify(frame.source))}" title="Open in editor">${escapeHtml(`${fileName}:${frame.source.lineNumber}`)}</span>`
+}
+
+function countLevels(entries: ConsoleEntry[]): string {
+  const errors = entries.filter(entry => entry.level === 'error').length
+  const warnings = entries.length - errors
+  return [
+    errors > 0 ? `${errors} error${errors === 1 ? '' : 's'}` : '',
+    warnings > 0 ? `${warnings} warning${warnings === 1 ? '' : 's'}` : '',
+  ].filter(Boolean).join(', ')
+}
+
+/**
+ * Renders the Snapshots tab: the snapshots the dev server keeps and the diff
+ * of the two picked. `live` is the selected component's subtree as it is now.
+ */
+export function renderSnapshots(container: HTMLElement, snapshots: ComponentSnapshot[], live: ReactComponent | null) {
+  const list = container.querySelector('.snapshot-list') as HTMLElement | null
+  const compare = container.querySelector('.snapshot-compare') as HTMLElement | null
+  const before = container.querySelector('.snapshot-before') as HTMLSelectElement | null
+  const after = container.querySelector('.snapshot-after') as HTMLSelectElement | null
+  if (!list || !compare || !before || !after)
+    return
+
+  componentSnapshots = snapshots
+  liveSnapshot = live
+
+  // Rebuilt only when the snapshots change, so an open dropdown stays open
+  const ids = snapshots.map(snapshot => snapshot.id).join(',')
+  if (list.dataset.snapshots !== ids) {
+    list.dataset.snapshots = ids
+    list.innerHTML = snapshots.length > 0
+      ? snapshots.map(snapshot => `
+          <div class="snapshot-item">
+            <span>${escapeHtml(snapshot.name)}</span>
+            <span class="snapshot-meta">${escapeHtml(snapshot.tree.displayName || snapshot.tree.name)} at ${new Date(snapshot.createdAt).toLocaleTimeString()}</span>
+            <button class="devtools-action snapshot-delete" data-id="${snapshot.id}" title="Delete snapshot">×</button>
+          </div>
+        `).join('')
+      : '<div class="no-components">Select a component and take a snapshot to compare it with later</div>'
+
+    list.querySelectorAll('.snapshot-delete').forEach((button) => {
+      button.addEventListener('click', () => {
+        window.__REACT_DEVTOOLS__?.send({ type: 'DELETE_SNAPSHOT', data: { id: Number((button as HTMLElement).dataset.id) } })
+      })
+    })
+
+    const options = snapshots.map(snapshot => `<option value="${snapshot.id}">${escapeHtml(snapshot.name)}</option>`).join('')
+    before.innerHTML = options
+    after.innerHTML = `${options}<option value="live">Selected component, live</option>`
+    compare.style.display = snapshots.length > 0 ? 'flex' : 'none'
+  }
+
+  // Compare the latest snapshot with the live component unless told otherwise
+  if (!snapshots.some(snapshot => snapshot.id === snapshotComparison.before)) {
+    snapshotComparison.before = snapshots[snapshots.length - 1]?.id
+  }
+  if (snapshotComparison.after !== 'live' && !snapshots.some(snapshot => snapshot.id === snapshotComparison.after)) {
+    snapshotComparison.after = 'live'
+  }
+  before.value = String(snapshotComparison.before)
+  after.value = String(snapshotComparison.after)
+
+  renderSnapshotDiff(container)
+}
+
+/**
+ * Lists the differences side by side, recomputed only when either side changed
+ */
+function renderSnapshotDiff(container: HTMLElement) {
+  const diff = container.querySelector('.snapshot-diff')
+  if (!diff)
+    return
+
+  const before = componentSnapshots.find(snapshot => snapshot.id === snapshotComparison.before)?.tree
+  const after = snapshotComparison.after === 'live'
+    ? liveSnapshot ?? undefined
+    : componentSnapshots.find(snapshot => snapshot.id === snapshotComparison.after)?.tree
+  if (diff.innerHTML && renderedDiff.before === before && renderedDiff.after === after)
+    return
+  renderedDiff = { before, after }
+
+  if (!before) {
+    diff.innerHTML = ''
+    return
+  }
+  if (!after) {
+    diff.innerHTML = '<div class="no-components">Select a component to compare the snapshot with</div>'
+    return
+  }
+
+  const changes = diffSnapshots(before, after)
+  if (changes.length === 0) {
+    diff.innerHTML = '<div class="no-components">No differences</div>'
+    return
+  }
+
+  const formatSide = (value: unknown, present: boolean) => present ? formatPreview(value) : '<span style="color: #666;">—</span>'
+  diff.innerHTML = `
+    <table class="snapshot-diff-table">
+      <tr><th>Path</th><th>Before</th><th>After</th></tr>
+      ${changes.map(change => `
+        <tr class="snapshot-change-${change.kind}">
+          <td class="snapshot-path">${escapeHtml(change.path)}</td>
+          <td>${change.kind === 'added' ? formatSide(undefined, false) : 'before' in change ? formatSide(change.before, true) : 'removed'}</td>
+          <td>${change.kind === 'removed' ? formatSide(undefined, false) : 'after' in change ? formatSide(change.after, true) : 'added'}</td>
+        </tr>
+      `).join('')}
+    </table>
   `
 }
 
 /**
- * Updates the props inspector with component details
+ * Updates the props inspector with component details. `hookNames` holds the
+ * variable names resolved for hook call locations, see `getHookSourceKey`.
  */
-export function updatePropsInspector(container: HTMLElement, component: ReactComponent) {
+export function updatePropsInspector(
+  container: HTMLElement,
+  component: ReactComponent,
+  hookNames: Map<string, string | null> = new Map(),
+  { renderReasons = [], stateHistory = [], pinned = false }: Partial<InspectorDetails> = {},
+) {
   const inspector = container.querySelector('#props-inspector') as HTMLElement
   const propsContent = container.querySelector('#props-content')
   const stateContent = container.querySelector('#state-content')
   const hooksContent = container.querySelector('#hooks-content')
+  const renderReasonsContent = container.querySelector('#render-reasons-content')
+  const stateHistoryContent = container.querySelector('#state-history-content') as HTMLElement | null
 
   if (!inspector)
     return
 
+  // Leave an open editor alone, the next update after it closes catches up
+  if (inspector.querySelector('.prop-editor') && inspector.dataset.componentId === String(component.id))
+    return
+
+  inspector.style.display = 'block'
+  inspector.dataset.componentId = String(component.id)
+
   // Update component info header
   const componentInfo = inspector.querySelector('.component-info')
   if (componentInfo) {
@@ -462,40 +1468,68 @@ export function updatePropsInspector(container: HTMLElement, component: ReactCom
 
   // Update props
   if (propsContent) {
-    propsContent.innerHTML = renderObjectProperties(component.props)
+    propsContent.innerHTML = renderObjectProperties(component.props, ['props'], true)
   }
 
   // Update state
   if (stateContent) {
-    stateContent.innerHTML = renderObjectProperties(component.state || {})
+    stateContent.innerHTML = renderObjectProperties(component.state || {}, ['state'], true)
   }
 
   // Update hooks
   if (hooksContent) {
     const hooks = component.hooks || []
     hooksContent.innerHTML = hooks.length > 0
-      ? hooks.map((hook, index) => `
-          <div class="hook-item">
-            <span class="hook-index">${index}</span>
-            <span class="hook-name">${hook.name}</span>
-            <span class="hook-type">${hook.type}</span>
-            <div class="hook-value">${formatValue(hook.value)}</div>
-          </div>
-        `).join('')
+      ? renderHooks(hooks, ['hooks'], hookNames)
       : '<div style="color: #666;">No hooks</div>'
   }
+
+  if (renderReasonsContent) {
+    renderReasonsContent.innerHTML = renderReasons.length > 0
+      ? renderRenderReasons(renderReasons, component, hookNames)
+      : '<div style="color: #666;">No renders recorded yet</div>'
+  }
+
+  inspector.querySelector('.state-history-pin')?.classList.toggle('active', pinned)
+  if (stateHistoryContent) {
+    renderStateHistory(stateHistoryContent, component, stateHistory, hookNames)
+  }
+
+  attachEditors(inspector, component)
+
+  inspector.querySelectorAll('.prop-store-global').forEach((button) => {
+    button.addEventListener('click', () => {
+      window.__REACT_DEVTOOLS__?.send({
+        type: 'STORE_AS_GLOBAL',
+        data: { componentId: component.id, path: JSON.parse((button as HTMLElement).dataset.path || '[]') },
+      })
+    })
+  })
+
+  // Fetch collapsed values on demand
+  inspector.querySelectorAll('.prop-inspectable').forEach((element) => {
+    element.addEventListener('click', () => {
+      const path = JSON.parse((element as HTMLElement).dataset.path || '[]')
+      if (window.__REACT_DEVTOOLS__) {
+        window.__REACT_DEVTOOLS__.send({
+          type: 'INSPECT_ELEMENT',
+          data: { componentId: component.id, path },
+        })
+      }
+    })
+  })
 }
 
 // Add global function for source navigation
 declare global {
   interface Window {
-    openComponentSource?: (componentId: string) => void
+    openComponentSource?: (componentId: number) => void
   }
 }
 
 // Set up global source navigation function
 if (typeof window !== 'undefined') {
-  window.openComponentSource = (componentId: string) => {
+  window.openComponentSource = (componentId: number) => {
     if (window.__REACT_DEVTOOLS__) {
       window.__REACT_DEVTOOLS__.send({
         type: 'OPEN_SOURCE',
@@ -505,34 +1539,477 @@ if (typeof window !== 'undefined') {
   }
 }
 
+/**
+ * Keys a hook call location for the resolved variable names
+ */
+export function getHookSourceKey(source: ComponentSource): string {
+  return `${source.fileName}:${source.lineNumber}:${source.columnNumber}`
+}
+
+/**
+ * Renders hooks, nesting the ones called through custom hooks under them.
+ * Hooks are labeled with the variable they're assigned to once it's known.
+ */
+function renderHooks(hooks: Hook[], path: Array<string | number>, hookNames: Map<string, string | null>): string {
+  return hooks.map((hook, index) => {
+    // Custom hooks only have a value when they call useDebugValue
+    const hasValue = !(isDehydratedEnvelope(hook.value) && hook.value.type === 'undefined' && hook.type === 'custom')
+    const variableName = hook.hookSource && hookNames.get(getHookSourceKey(hook.hookSource))
+    return `
+      <div class="hook-item">
+        ${hook.id !== null ? `<span class="hook-index">${hook.id}</span>` : ''}
+        <span class="hook-name" title="${escapeHtml(hook.name)}">${escapeHtml(variableName || hook.name)}</span>
+        <span class="hook-type">${hook.type}</span>
+        ${hasValue ? `<div class="hook-value">${renderValue(hook.value, [...path, index, 'value'], isEditableHook(hook))}</div>` : ''}
+        ${hook.subHooks?.length ? `<div class="hook-subhooks">${renderHooks(hook.subHooks, [...path, index, 'subHooks'], hookNames)}</div>` : ''}
+      </div>
+    `
+  }).join('')
+}
+
+/**
+ * Explains each recorded render, newest first. A `memo` component that
+ * rendered because a prop was recreated with the same contents gets a warning,
+ * memoizing that prop in the parent would have skipped the render.
+ */
+function renderRenderReasons(reasons: RenderReason[], component: ReactComponent, hookNames: Map<string, string | null>): string {
+  return [...reasons].reverse().map((reason) => {
+    const lines: string[] = []
+    const recreated = component.type === 'memo' ? reason.props.filter(prop => prop.deepEqual) : []
+    if (recreated.length > 0) {
+      const names = recreated.map(prop => `props.${prop.name}`).join(', ')
+      lines.push(`<div class="render-reason-warning">⚠ Memo re-rendered because ${escapeHtml(names)} ${recreated.length > 1 ? 'are new objects' : 'is a new object'} equal to the previous one</div>`)
+    }
+
+    if (reason.isMount) {
+      lines.push('<div class="render-reason-line">Mounted</div>')
+    }
+    for (const prop of reason.props) {
+      lines.push(`
+        <div class="render-reason-line">
+          <span class="prop-key">props.${escapeHtml(prop.name)}:</span>
+          <span class="prop-value">${formatPreview(prop.before)} → ${formatPreview(prop.after)}</span>
+        </div>
+      `)
+    }
+    if (reason.hooks.length > 0) {
+      const labels = reason.hooks.map(index => escapeHtml(getHookLabel(component.hooks || [], index, hookNames)))
+      lines.push(`<div class="render-reason-line">Hooks changed: ${labels.join(', ')}</div>`)
+    }
+    if (reason.state.length > 0) {
+      lines.push(`<div class="render-reason-line">State changed: ${escapeHtml(reason.state.join(', '))}</div>`)
+    }
+    if (reason.context) {
+      lines.push('<div class="render-reason-line">Context changed</div>')
+    }
+    if (reason.parent) {
+      lines.push('<div class="render-reason-line">The parent rendered</div>')
+    }
+    if (lines.length === 0) {
+      lines.push('<div class="render-reason-line">Nothing it reads changed, e.g. forceUpdate</div>')
+    }
+
+    return `
+      <div class="render-reason">
+        <div class="render-reason-commit">Commit #${reason.commit} at ${new Date(reason.timestamp).toLocaleTimeString()}</div>
+        ${lines.join('')}
+      </div>
+    `
+  }).join('')
+}
+
+/**
+ * Renders the timeline of a component's recorded state. The slider previews
+ * a snapshot and restoring it asks the client to put that state back, which
+ * records a new snapshot in turn. The timeline isn't rebuilt while nothing
+ * was recorded, so renders don't interrupt dragging the slider.
+ */
+function renderStateHistory(content: HTMLElement, component: ReactComponent, snapshots: StateSnapshot[], hookNames: Map<string, string | null>) {
+  if (snapshots.length === 0) {
+    content.innerHTML = '<div style="color: #666;">No state recorded yet</div>'
+    delete content.dataset.timeline
+    return
+  }
+
+  const timeline = `${component.id}:${snapshots[0].id}:${snapshots[snapshots.length - 1].id}`
+  if (content.dataset.timeline !== timeline) {
+    content.dataset.timeline = timeline
+    content.innerHTML = `
+      <input type="range" class="state-history-slider" min="0" max="${snapshots.length - 1}" step="1">
+      <div class="state-history-snapshot"></div>
+    `
+    content.querySelector('.state-history-slider')?.addEventListener('input', (event) => {
+      const index = Number((event.target as HTMLInputElement).value)
+      stateHistoryPosition = index < snapshots.length - 1 ? { componentId: component.id, snapshotId: snapshots[index].id } : null
+      renderStateSnapshot(content, component, snapshots, hookNames)
+    })
+  }
+  renderStateSnapshot(content, component, snapshots, hookNames)
+}
+
+function renderStateSnapshot(content: HTMLElement, component: ReactComponent, snapshots: StateSnapshot[], hookNames: Map<string, string | null>) {
+  const slider = content.querySelector('.state-history-slider') as HTMLInputElement | null
+  const details = content.querySelector('.state-history-snapshot')
+  if (!slider || !details) {
+    return
+  }
+
+  const positioned = stateHistoryPosition?.componentId === component.id
+    ? snapshots.findIndex(snapshot => snapshot.id === stateHistoryPosition?.snapshotId)
+    : -1
+  const index = positioned >= 0 ? positioned : snapshots.length - 1
+  const snapshot = snapshots[index]
+  const isLatest = index === snapshots.length - 1
+  slider.value = String(index)
+
+  const lines: string[] = []
+  for (const { index: hookIndex, value } of snapshot.hooks) {
+    lines.push(`
+      <div class="render-reason-line">
+        <span class="prop-key">${escapeHtml(getHookLabel(component.hooks || [], hookIndex, hookNames))}:</span>
+        <span class="prop-value">${formatPreview(value)}</span>
+      </div>
+    `)
+  }
+  if (snapshot.state !== undefined) {
+    lines.push(`<div class="render-reason-line"><span class="prop-key">state:</span> <span class="prop-value">${formatPreview(snapshot.state)}</span></div>`)
+  }
+  if (lines.length === 0) {
+    lines.push('<div class="render-reason-line" style="color: #666;">No state, only props</div>')
+  }
+
+  details.innerHTML = `
+    <div class="render-reason-commit">
+      ${index + 1} of ${snapshots.length}${isLatest ? ' (current)' : ''}, commit #${snapshot.commit} at ${new Date(snapshot.timestamp).toLocaleTimeString()}
+    </div>
+    ${snapshot.changes.length > 0 ? `<div class="state-history-changes">Changed: ${escapeHtml(snapshot.changes.join(', '))}</div>` : ''}
+    ${lines.join('')}
+    ${isLatest ? '' : '<button class="devtools-action state-history-restore">⟲ Restore this state</button>'}
+  `
+
+  details.querySelector('.state-history-restore')?.addEventListener('click', () => {
+    stateHistoryPosition = null
+    window.__REACT_DEVTOOLS__?.send({
+      type: 'RESTORE_STATE',
+      data: { componentId: component.id, snapshotId: snapshot.id },
+    })
+  })
+}
+
+/**
+ * Labels a hook by its index, with its variable name once it's known
+ */
+function getHookLabel(hooks: Hook[], index: number, hookNames: Map<string, string | null>): string {
+  const hook = findHook(hooks, index)
+  if (!hook) {
+    return String(index)
+  }
+  const variableName = hook.hookSource && hookNames.get(getHookSourceKey(hook.hookSource))
+  return `${index} (${variableName || hook.name})`
+}
+
+function findHook(hooks: Hook[], index: number): Hook | undefined {
+  for (const hook of hooks) {
+    const found = hook.id === index ? hook : findHook(hook.subHooks || [], index)
+    if (found) {
+      return found
+    }
+  }
+  return undefined
+}
+
 /**
  * Renders object properties as HTML
  */
-function renderObjectProperties(obj: Record<string, unknown>): string {
+function renderObjectProperties(obj: Record<string, unknown> | unknown[], path: Array<string | number>, editable = false): string {
   if (!obj || Object.keys(obj).length === 0) {
     return '<div style="color: #666;">No properties</div>'
   }
 
-  return Object.entries(obj).map(([key, value]) => `
-    <div class="prop-item">
-      <span class="prop-key">${key}:</span>
-      <span class="prop-value">${formatValue(value)}</span>
-    </div>
-  `).join('')
+  return Object.entries(obj).map(([key, value]) => {
+    const valuePath = [...path, Array.isArray(obj) ? Number(key) : key]
+    return `
+      <div class="prop-item">
+        ${storeGlobalButton(valuePath)}
+        <span class="prop-key">${escapeHtml(key)}:</span>
+        ${renderValue(value, valuePath, editable)}
+      </div>
+    `
+  }).join('')
+}
+
+/**
+ * Offers to assign the value at a path to a `tempN` global in the page
+ */
+function storeGlobalButton(path: Array<string | number>): string {
+  return `<button class="prop-store-global" data-path="${escapeHtml(JSON.stringify(path))}" title="Store as global variable">⧉</button>`
+}
+
+/**
+ * Renders a dehydrated value, nesting objects and arrays that were sent in
+ * full and offering to fetch the ones that were collapsed
+ */
+function renderValue(value: unknown, path: Array<string | number>, editable = false): string {
+  if (isDehydratedEnvelope(value)) {
+    if (value.entries) {
+      const entries = value.type === 'map'
+        ? value.entries.map((entry, index) => {
+            const [key, item] = entry as unknown[]
+            return `
+              <div class="prop-item">
+                ${storeGlobalButton([...path, index, 1])}
+                <span class="prop-key">${formatValue(key)} =></span>
+                ${renderValue(item, [...path, index, 1])}
+              </div>
+            `
+          }).join('')
+        : renderObjectProperties(value.entries, path)
+      return `<span class="prop-value">${escapeHtml(value.name)}</span><div class="prop-children">${entries}</div>`
+    }
+
+    if (value.inspectable) {
+      return `<span class="prop-value prop-inspectable" data-path="${escapeHtml(JSON.stringify(path))}" title="Click to inspect">▶ ${escapeHtml(value.name)}</span>`
+    }
+
+    return `<span class="prop-value prop-${value.type}">${formatValue(value)}</span>`
+  }
+
+  if (value && typeof value === 'object') {
+    const label = Array.isArray(value) ? `Array(${value.length})` : 'Object'
+    // Only values that made it over the wire in full can be rewritten as JSON
+    const jsonEditor = editable && isPlainJson(value)
+      ? `<button class="prop-edit-json" ${editorAttributes(path, 'json', value)} title="Edit as JSON">✎</button>`
+      : ''
+    return `<span class="prop-value">${label}</span>${jsonEditor}<div class="prop-children">${renderObjectProperties(value as Record<string, unknown>, path, editable)}</div>`
+  }
+
+  if (editable && typeof value === 'boolean') {
+    return `<label class="prop-value"><input type="checkbox" class="prop-checkbox" ${editorAttributes(path, 'json', value)}${value ? ' checked' : ''}> ${value}</label>`
+  }
+
+  if (editable && (typeof value === 'string' || typeof value === 'number' || value === null)) {
+    const kind = typeof value === 'string' ? 'string' : typeof value === 'number' ? 'number' : 'json'
+    return `<span class="prop-value prop-editable" ${editorAttributes(path, kind, value)} title="Click to edit">${formatValue(value)}</span>`
+  }
+
+  return `<span class="prop-value">${formatValue(value)}</span>`
+}
+
+type EditorKind = 'string' | 'number' | 'json'
+
+function editorAttributes(path: Array<string | number>, kind: EditorKind, value: unknown): string {
+  return `data-edit-path="${escapeHtml(JSON.stringify(path))}" data-edit-kind="${kind}" data-edit-value="${escapeHtml(JSON.stringify(value))}"`
+}
+
+/**
+ * Checks whether a value holds nothing but JSON, without envelopes for
+ * functions, Maps or values past the dehydration depth
+ */
+function isPlainJson(value: unknown): boolean {
+  if (isDehydratedEnvelope(value)) {
+    return false
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).every(isPlainJson)
+  }
+  return true
+}
+
+/**
+ * Wires up the inline editors of editable values: checkboxes apply right
+ * away, the others open an input that applies on Enter or blur and cancels
+ * on Escape
+ */
+function attachEditors(inspector: HTMLElement, component: ReactComponent) {
+  inspector.querySelectorAll<HTMLInputElement>('.prop-checkbox').forEach((checkbox) => {
+    checkbox.addEventListener('change', () => {
+      sendEdit(component, JSON.parse(checkbox.dataset.editPath || '[]'), checkbox.checked)
+    })
+  })
+
+  inspector.querySelectorAll<HTMLElement>('.prop-editable, .prop-edit-json').forEach((element) => {
+    element.addEventListener('click', () => openEditor(element, component))
+  })
+}
+
+function openEditor(element: HTMLElement, component: ReactComponent) {
+  const path = JSON.parse(element.dataset.editPath || '[]')
+  const kind = element.dataset.editKind as EditorKind
+  const current = JSON.parse(element.dataset.editValue || 'null')
+
+  const input = document.createElement('input')
+  input.className = 'prop-editor'
+  input.value = kind === 'string' ? current : kind === 'number' ? String(current) : JSON.stringify(current)
+  if (kind === 'number') {
+    input.type = 'number'
+    input.step = 'any'
+  }
+
+  let closed = false
+  const close = () => {
+    closed = true
+    input.replaceWith(element)
+  }
+
+  const apply = () => {
+    if (closed) {
+      return
+    }
+
+    let value: unknown
+    try {
+      value = parseEditorValue(input.value, kind)
+    }
+    catch {
+      input.classList.add('invalid')
+      return
+    }
+
+    close()
+    sendEdit(component, path, value)
+  }
+
+  input.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') {
+      apply()
+    }
+    else if (event.key === 'Escape') {
+      close()
+    }
+  })
+  input.addEventListener('blur', () => {
+    // An invalid value can't be applied, so leaving the input discards it
+    if (input.classList.contains('invalid')) {
+      close()
+    }
+    else {
+      apply()
+    }
+  })
+  input.addEventListener('input', () => input.classList.remove('invalid'))
+
+  element.replaceWith(input)
+  input.focus()
+  input.select()
+}
+
+function parseEditorValue(text: string, kind: EditorKind): unknown {
+  switch (kind) {
+    case 'string':
+      return text
+    case 'number': {
+      const value = Number(text)
+      if (text.trim() === '' || Number.isNaN(value)) {
+        throw new TypeError(`Not a number: ${text}`)
+      }
+      return value
+    }
+    case 'json':
+      return JSON.parse(text)
+  }
+}
+
+/**
+ * Only state hooks hold a value that can be replaced
+ */
+function isEditableHook(hook: Hook): boolean {
+  return hook.type === 'useState' || hook.type === 'useReducer'
+}
+
+/**
+ * Sends an edit of the value at a path inside the selected component
+ */
+function sendEdit(component: ReactComponent, path: Array<string | number>, value: unknown) {
+  const [section, ...rest] = path
+  switch (section) {
+    case 'props':
+      window.__REACT_DEVTOOLS__?.send({
+        type: 'UPDATE_PROPS',
+        data: { componentId: component.id, path: rest, value },
+      })
+      break
+
+    case 'state':
+      window.__REACT_DEVTOOLS__?.send({
+        type: 'UPDATE_STATE',
+        data: { componentId: component.id, path: rest, value },
+      })
+      break
+
+    case 'hooks': {
+      // [index, ('subHooks', index)*, 'value', ...path inside the value]
+      let hook = component.hooks?.[rest[0] as number]
+      let index = 1
+      while (hook && rest[index] === 'subHooks') {
+        hook = hook.subHooks?.[rest[index + 1] as number]
+        index += 2
+      }
+      if (hook?.id === null || hook?.id === undefined) {
+        break
+      }
+
+      window.__REACT_DEVTOOLS__?.send({
+        type: 'UPDATE_STATE',
+        data: { componentId: component.id, hookIndex: hook.id, path: rest.slice(index + 1), value },
+      })
+      break
+    }
+  }
+}
+
+let statusTimer: ReturnType<typeof setTimeout> | undefined
+
+/**
+ * Shows why a profile couldn't be loaded, until the Profiler tab next updates
+ */
+export function showProfilerError(container: HTMLElement, error: string) {
+  const status = container.querySelector('.profiler-status')
+  if (status) {
+    status.textContent = error
+    status.classList.add('error')
+  }
+}
+
+/**
+ * Shows why an edit failed above the inspected values
+ */
+export function showInspectorError(container: HTMLElement, error: string) {
+  const status = container.querySelector('#inspector-status') as HTMLElement | null
+  if (!status)
+    return
+
+  status.textContent = error
+  status.style.display = 'block'
+  clearTimeout(statusTimer)
+  statusTimer = setTimeout(() => {
+    status.style.display = 'none'
+  }, 5000)
 }
 
 /**
  * Formats a value for display
  */
 function formatValue(value: unknown): string {
+  if (isDehydratedEnvelope(value)) {
+    switch (value.type) {
+      case 'function':
+        return `ƒ ${escapeHtml(value.name)}()`
+      case 'date':
+      case 'html_element':
+      case 'react_element':
+        return escapeHtml(value.preview ? `${value.name} ${value.preview}` : value.name)
+      case 'typed_array':
+        return escapeHtml(`${value.name} [${value.preview}]`)
+      default:
+        return escapeHtml(value.name)
+    }
+  }
   if (value === null)
     return 'null'
   if (value === undefined)
     return 'undefined'
   if (typeof value === 'string')
-    return `"${value}"`
-  if (typeof value === 'function')
-    return `ƒ ${value.name || 'anonymous'}`
+    return `"${escapeHtml(value)}"`
   if (typeof value === 'object') {
     if (Array.isArray(value)) {
       return `Array(${value.length})`
@@ -542,13 +2019,39 @@ function formatValue(value: unknown): string {
   return String(value)
 }
 
+/**
+ * Formats a value on one line, with the first level of objects and arrays
+ * spelled out so before/after values can be told apart
+ */
+function formatPreview(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`
+  }
+  if (value && typeof value === 'object' && !isDehydratedEnvelope(value)) {
+    return `{${Object.entries(value).map(([key, item]) => `${escapeHtml(key)}: ${formatValue(item)}`).join(', ')}}`
+  }
+  return formatValue(value)
+}
+
+/**
+ * Escapes text for safe use inside HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
 /**
  * Filters components based on search query
  */
 function filterComponents(container: HTMLElement, query: string) {
   const items = container.querySelectorAll('.component-item')
   items.forEach((item) => {
-    const name = item.querySelector('.component-name')?.textContent?.toLowerCase() || ''
+    // Match wrapped names too, e.g. `memo(usercard)`
+    const name = item.querySelector('.component-name')?.getAttribute('title')?.toLowerCase() || ''
     const element = item as HTMLElement
     element.style.display = name.includes(query) ? 'block' : 'none'
   })
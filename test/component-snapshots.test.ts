@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { diffSnapshots } from '../src/component-snapshots'
+import type { ReactComponent } from '../src/types'
+
+function component(name: string, props: ReactComponent['props'], children: ReactComponent[] = [], extra: Partial<ReactComponent> = {}): ReactComponent {
+  return { id: 0, name, type: 'function', props, children, ...extra }
+}
+
+describe('diffSnapshots', () => {
+  it('reports changed values with their full path', () => {
+    const changes = diffSnapshots(
+      component('Form', { user: { name: 'Ada', tags: ['a'] } }, [], { hooks: [{ id: 0, name: 'State', type: 'useState', value: { saved: false } }] }),
+      component('Form', { user: { name: 'Grace', tags: ['a', 'b'] } }, [], { hooks: [{ id: 0, name: 'State', type: 'useState', value: { saved: true } }] }),
+    )
+
+    expect(changes).toEqual([
+      { kind: 'changed', path: 'Form > props.user.name', before: 'Ada', after: 'Grace' },
+      { kind: 'added', path: 'Form > props.user.tags[1]', before: undefined, after: 'b' },
+      { kind: 'changed', path: 'Form > hooks[0].value.saved', before: false, after: true },
+    ])
+  })
+
+  it('matches children by name and key', () => {
+    const changes = diffSnapshots(
+      component('List', {}, [
+        component('Item', { done: false }, [], { key: 'a' }),
+        component('Item', {}, [], { key: 'b' }),
+        component('Footer', {}),
+      ]),
+      component('List', {}, [
+        component('Item', {}, [], { key: 'b' }),
+        component('Item', { done: true }, [], { key: 'a' }),
+        component('Item', {}, [], { key: 'c' }),
+      ]),
+    )
+
+    expect(changes).toEqual([
+      { kind: 'changed', path: 'List > Item[key=a] > props.done', before: false, after: true },
+      { kind: 'removed', path: 'List > Footer' },
+      { kind: 'added', path: 'List > Item[key=c]' },
+    ])
+  })
+
+  it('tells apart unkeyed children sharing a name by position', () => {
+    const changes = diffSnapshots(
+      component('Table', {}, [component('Row', { n: 1 }), component('Row', { n: 2 })]),
+      component('Table', {}, [component('Row', { n: 1 }), component('Row', { n: 3 })]),
+    )
+
+    expect(changes).toEqual([{ kind: 'changed', path: 'Table > Row[1] > props.n', before: 2, after: 3 }])
+  })
+})
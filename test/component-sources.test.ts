@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { injectComponentSources } from '../src/component-sources'
+
+function registeredComponents(code: string | null): Array<[string, unknown]> {
+  return [...(code || '').matchAll(/hook\.registerComponentSource\((\w+), (.+)\)$/gm)].map(([, name, source]) => [name, JSON.parse(source)])
+}
+
+describe('injectComponentSources', () => {
+  it('leaves modules without components alone', () => {
+    expect(injectComponentSources('export const formatDate = date => date.toISOString()\n', '/src/format.ts', null)).toBeNull()
+  })
+
+  it('traces positions back through the source map', () => {
+    const code = '// compiled\nexport function App() { return null }\n'
+    // Line 2 columns 0 and 7 come from line 1 columns 0 and 7 of the original
+    const map = { version: 3 as const, sources: ['App.tsx'], names: [], mappings: ';AAAA,OAAO' }
+
+    const injected = injectComponentSources(code, '/src/App.tsx', map)
+
+    expect(injected?.startsWith(code)).toBe(true)
+    expect(registeredComponents(injected)).toEqual([['App', { fileName: '/src/App.tsx', lineNumber: 1, columnNumber: 8 }]])
+  })
+
+  it('registers wrapped components but not other capitalized values', () => {
+    const code = [
+      'export const Card = memo(function Card() { return null })',
+      'const Input = React.forwardRef((props, ref) => null)',
+      'const Page = lazy(() => import("./Page"))',
+      'const Button = styled(() => null)',
+      'const Theme = createContext(null)',
+      'const API = createClient()',
+      'const Store = create({ count: 0 })',
+      'const Wrapped = withRouter(Card)',
+    ].join('\n')
+
+    expect(registeredComponents(injectComponentSources(code, '/src/ui.tsx', null)).map(([name]) => name)).toEqual(['Card', 'Input', 'Page', 'Button'])
+  })
+
+  it('leaves modules that fail to parse alone', () => {
+    expect(injectComponentSources('export const App = () => <div />\n', '/src/App.tsx', null)).toBeNull()
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { dimConsoleArgs, formatComponentStack, formatConsoleArgs, getComponentStack } from '../src/console-patch'
+import { WorkTag } from '../src/fiber-tags'
+import type { FiberNode } from '../src/types'
+
+function fiber(tag: number, type: FiberNode['type'], parent: FiberNode | null): FiberNode {
+  return { tag, type, elementType: type, return: parent } as FiberNode
+}
+
+describe('formatConsoleArgs', () => {
+  it('applies format string substitutions and appends the rest', () => {
+    expect(formatConsoleArgs(['%s failed %d times%c', 'Save', '3.5', 'color: red', { retry: true }])).toBe('Save failed 3 times {"retry":true}')
+  })
+
+  it('leaves substitutions without arguments alone', () => {
+    expect(formatConsoleArgs(['100%', 'done'])).toBe('100% done')
+  })
+})
+
+describe('getComponentStack', () => {
+  it('walks up to the root, skipping host fibers', () => {
+    const root = fiber(WorkTag.HostRoot, null, null)
+    const App = () => null
+    const app = fiber(WorkTag.FunctionComponent, App, root)
+    const div = fiber(WorkTag.HostComponent, 'div', app)
+    const button = fiber(WorkTag.ClassComponent, class Button {}, div)
+
+    const stack = getComponentStack(button)
+
+    expect(stack.map(frame => frame.name)).toEqual(['Button', 'App'])
+    expect(formatComponentStack(stack)).toBe('\n    at Button\n    at App')
+  })
+})
+
+describe('dimConsoleArgs', () => {
+  it('styles the format string and keeps its substitutions', () => {
+    expect(dimConsoleArgs(['%s rendered', 'App', 1])).toEqual(['%c%s rendered', 'color: rgba(124, 124, 124, 0.5)', 'App', 1])
+  })
+
+  it('styles a leading object through a substitution', () => {
+    const value = { count: 1 }
+    expect(dimConsoleArgs([value])).toEqual(['%c%o', 'color: rgba(124, 124, 124, 0.5)', value])
+  })
+})
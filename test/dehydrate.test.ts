@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { dehydrate, getInPath, setInDehydrated } from '../src/dehydrate'
+import type { DehydratedEnvelope, DehydratedValue } from '../src/types'
+
+describe('dehydrate', () => {
+  it('replaces values JSON cannot carry with envelopes', () => {
+    const result = dehydrate({
+      onClick: function handleClick() {},
+      id: Symbol('id'),
+      when: new Date(0),
+      missing: undefined,
+      big: 10n,
+      ratio: Number.NaN,
+      bytes: new Uint8Array([1, 2, 3]),
+    }) as Record<string, DehydratedValue>
+
+    expect(result.onClick).toMatchObject({ __dehydrated: true, type: 'function', name: 'handleClick' })
+    expect(result.id).toMatchObject({ type: 'symbol', name: 'Symbol(id)' })
+    expect(result.when).toMatchObject({ type: 'date', name: '1970-01-01T00:00:00.000Z' })
+    expect(result.missing).toMatchObject({ type: 'undefined' })
+    expect(result.big).toMatchObject({ type: 'bigint', name: '10n' })
+    expect(result.ratio).toMatchObject({ type: 'number', name: 'NaN' })
+    expect(result.bytes).toMatchObject({ type: 'typed_array', name: 'Uint8Array(3)', size: 3 })
+    expect(() => JSON.stringify(result)).not.toThrow()
+  })
+
+  it('marks circular references and collapses values past the depth limit', () => {
+    const user: Record<string, unknown> = { name: 'Ada', address: { city: { name: 'London' } } }
+    user.self = user
+
+    const result = dehydrate({ user }) as { user: Record<string, DehydratedValue> }
+
+    expect(result.user.self).toMatchObject({ type: 'circular' })
+    expect(result.user.address).toMatchObject({ type: 'object', inspectable: true, size: 1 })
+    expect(result.user.name).toBe('Ada')
+  })
+
+  it('keeps Map entries as key/value pairs', () => {
+    const result = dehydrate({ users: new Map([['ada', { age: 36 }]]) }, 3) as Record<string, DehydratedValue>
+
+    expect(result.users).toMatchObject({ type: 'map', name: 'Map(1)', entries: [['ada', { age: 36 }]] })
+  })
+})
+
+describe('inspecting paths', () => {
+  it('reads and fills in collapsed values by path', () => {
+    const raw = { items: new Set([{ nested: { deep: true } }]) }
+    const dehydrated = dehydrate(raw, 1) as { items: DehydratedEnvelope }
+
+    expect(dehydrated.items).toMatchObject({ type: 'set', inspectable: true })
+    expect(getInPath(raw, ['items', 0, 'nested'])).toEqual({ deep: true })
+
+    expect(setInDehydrated(dehydrated, ['items'], dehydrate(getInPath(raw, ['items']), 1))).toBe(true)
+    expect(dehydrated.items.entries?.[0]).toMatchObject({ type: 'object', inspectable: true })
+
+    expect(setInDehydrated(dehydrated, ['items', 0], dehydrate(getInPath(raw, ['items', 0])))).toBe(true)
+    expect(dehydrated.items.entries?.[0]).toEqual({ nested: { deep: true } })
+    expect(setInDehydrated(dehydrated, ['missing', 'path'], null)).toBe(false)
+  })
+})
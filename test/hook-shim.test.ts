@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest'
+import { HOOK_SHIM_SCRIPT } from '../src/hook-shim'
+import type { FiberNode, FiberRoot, ReactDevToolsHook } from '../src/types'
+
+/**
+ * Runs the inlined script against a window holding an optional hook
+ */
+function install(hook?: Partial<ReactDevToolsHook>): ReactDevToolsHook {
+  const window: { __REACT_DEVTOOLS_GLOBAL_HOOK__?: Partial<ReactDevToolsHook> } = { __REACT_DEVTOOLS_GLOBAL_HOOK__: hook }
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  // eslint-disable-next-line no-new-func
+  new Function('window', HOOK_SHIM_SCRIPT)(window)
+  vi.restoreAllMocks()
+  return window.__REACT_DEVTOOLS_GLOBAL_HOOK__ as ReactDevToolsHook
+}
+
+function fiberRoot(element: unknown): FiberRoot {
+  return { current: { memoizedState: { element } } as FiberNode }
+}
+
+describe('hook shim', () => {
+  it('creates a hook that tracks mounted roots per renderer', () => {
+    const hook = install()
+    const rendererId = hook.inject!({ version: '19.0.0', rendererID: 0, bundleType: 1 })
+    const root = fiberRoot('App')
+
+    hook.onCommitFiberRoot!(rendererId, root)
+    expect([...hook.getFiberRoots!(rendererId)]).toEqual([root])
+
+    root.current.memoizedState.element = null
+    hook.onCommitFiberRoot!(rendererId, root)
+    expect(hook.getFiberRoots!(rendererId).size).toBe(0)
+  })
+
+  it('tracks roots on a hook another DevTools installed, calling its handler', () => {
+    const onCommitFiberRoot = vi.fn()
+    const renderers = new Map()
+    const hook = install({ renderers, supportsFiber: true, onCommitFiberRoot })
+    const root = fiberRoot('App')
+
+    hook.onCommitFiberRoot!(1, root, 3)
+
+    expect(hook.renderers).toBe(renderers)
+    expect([...hook.getFiberRoots!(1)]).toEqual([root])
+    expect(onCommitFiberRoot).toHaveBeenCalledWith(1, root, 3)
+  })
+
+  it('adds the component source registry to a hook another DevTools installed', () => {
+    const hook = install({ renderers: new Map(), supportsFiber: true })
+    const Button = () => null
+    const Memo = { $$typeof: Symbol.for('react.memo'), type: Button }
+    const source = { fileName: '/src/Button.tsx', lineNumber: 3, columnNumber: 1 }
+
+    hook.registerComponentSource!(Memo, source)
+
+    expect(hook.componentSources!.get(Memo)).toBe(source)
+    expect(hook.componentSources!.get(Button)).toBe(source)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { inspectHooks } from '../src/inspect-hooks'
+import type { FiberNode, HookNode } from '../src/types'
+
+// Stands in for React 19's shared internals and the `react` package exports,
+// which call into whichever dispatcher is current
+interface Dispatcher {
+  useState: (initial: unknown) => [unknown, () => void]
+  useMemo: (create: () => unknown, deps: unknown[]) => unknown
+  useDebugValue: (value: unknown) => void
+}
+
+const internals: { H: Dispatcher | null } = { H: null }
+const React: Dispatcher = {
+  useState: initial => internals.H!.useState(initial),
+  useMemo: (create, deps) => internals.H!.useMemo(create, deps),
+  useDebugValue: value => internals.H!.useDebugValue(value),
+}
+
+function hookList(...states: unknown[]) {
+  return states.reduceRight<HookNode | null>((next, memoizedState) => ({ memoizedState, queue: null, next }), null)
+}
+
+function useCounter() {
+  const [count] = React.useState(0)
+  React.useDebugValue(`count: ${count}`)
+  return count
+}
+
+function Counter() {
+  const [label] = React.useState('')
+  const double = React.useMemo(() => 0, [])
+  useCounter()
+  useCounter()
+  return [label, double]
+}
+
+describe('inspectHooks', () => {
+  it('types hooks and groups the ones called through custom hooks', () => {
+    const fiber = {
+      tag: 0,
+      type: Counter,
+      memoizedProps: {},
+      memoizedState: hookList('clicks', [4, [2]], 1, 2),
+    } as FiberNode
+
+    const hooks = inspectHooks(fiber, internals)
+
+    expect(hooks).toMatchObject([
+      { id: 0, type: 'useState', value: 'clicks' },
+      { id: 1, type: 'useMemo', value: 4, deps: [2] },
+      { id: null, type: 'custom', name: 'Counter', value: 'count: 1', subHooks: [{ id: 2, type: 'useState', value: 1 }] },
+      { id: null, type: 'custom', name: 'Counter', value: 'count: 2', subHooks: [{ id: 3, type: 'useState', value: 2 }] },
+    ])
+    expect(internals.H).toBe(null)
+  })
+
+  it('records where each hook was called', () => {
+    const fiber = {
+      tag: 0,
+      type: Counter,
+      memoizedProps: {},
+      memoizedState: hookList('clicks', [4, [2]], 1, 2),
+    } as FiberNode
+
+    const [label, double, first, second] = inspectHooks(fiber, internals)!
+
+    expect(label.hookSource?.fileName).toContain('inspect-hooks.test.ts')
+    expect(double.hookSource!.lineNumber).toBe(label.hookSource!.lineNumber + 1)
+    // Custom hooks are located at their call, not inside the hook
+    expect(first.hookSource!.lineNumber).toBe(label.hookSource!.lineNumber + 2)
+    expect(second.hookSource!.lineNumber).toBe(label.hookSource!.lineNumber + 3)
+    expect(first.subHooks![0].hookSource).toEqual(second.subHooks![0].hookSource)
+  })
+
+  it('gives up on components that throw', () => {
+    const fiber = {
+      tag: 0,
+      type: () => {
+        throw new Error('render failed')
+      },
+      memoizedProps: {},
+      memoizedState: null,
+    } as FiberNode
+
+    expect(inspectHooks(fiber, internals)).toBe(null)
+  })
+})
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getFiberId } from '../src/fiber-registry'
+import { WorkTag } from '../src/fiber-tags'
+import { overrideHookState, overrideProps, overrideState } from '../src/overrides'
+import type { FiberNode } from '../src/types'
+
+const fiberRoot = {}
+const renderer = {
+  overrideProps: vi.fn(),
+  overrideHookState: vi.fn(),
+}
+
+/**
+ * Mounts a fiber under a root the hook knows, so the renderer can be found
+ */
+function mount(fiber: Partial<FiberNode>): [FiberNode, number] {
+  const root = { tag: WorkTag.HostRoot, stateNode: fiberRoot } as FiberNode
+  const mounted = { tag: WorkTag.FunctionComponent, memoizedProps: {}, memoizedState: null, ...fiber, return: root } as FiberNode
+  return [mounted, getFiberId(mounted)]
+}
+
+beforeEach(() => {
+  vi.stubGlobal('window', {
+    __REACT_DEVTOOLS_GLOBAL_HOOK__: {
+      renderers: new Map([[1, renderer]]),
+      getFiberRoots: () => new Set([fiberRoot]),
+    },
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.clearAllMocks()
+})
+
+describe('overrideProps', () => {
+  it('hands the path and value to the renderer', () => {
+    const [fiber, id] = mount({ memoizedProps: { user: { name: 'Ada' } } })
+
+    expect(overrideProps(id, ['user', 'name'], 'Grace')).toBeNull()
+    expect(renderer.overrideProps).toHaveBeenCalledWith(fiber, ['user', 'name'], 'Grace')
+  })
+
+  it('rejects paths that no longer exist', () => {
+    const [, id] = mount({ memoizedProps: { user: { name: 'Ada' } } })
+
+    expect(overrideProps(id, ['user', 'age'], 36)).toBe('props.user.age no longer exists')
+    expect(overrideProps(id, ['account', 'id'], 1)).toBe('props.account.id no longer exists')
+    expect(overrideProps(id, [], {})).toBe('props can only be edited one at a time')
+    expect(renderer.overrideProps).not.toHaveBeenCalled()
+  })
+
+  it('reports unmounted components and renderers without the override API', () => {
+    const [, id] = mount({ memoizedProps: { label: 'a' } })
+    vi.stubGlobal('window', { __REACT_DEVTOOLS_GLOBAL_HOOK__: { renderers: new Map([[1, {}]]), getFiberRoots: () => new Set([fiberRoot]) } })
+
+    expect(overrideProps(id, ['label'], 'b')).toBe('the renderer does not support editing, is this a production build?')
+    expect(overrideProps(-1, ['label'], 'b')).toBe('the component is no longer mounted')
+  })
+})
+
+describe('overrideState', () => {
+  it('sets the top-level key through setState, copying the objects along the path', () => {
+    const state = { user: { name: 'Ada', tags: ['a'] }, count: 1 }
+    const setState = vi.fn()
+    const [, id] = mount({ tag: WorkTag.ClassComponent, stateNode: { state, setState } })
+
+    expect(overrideState(id, ['user', 'name'], 'Grace')).toBeNull()
+    expect(setState).toHaveBeenCalledWith({ user: { name: 'Grace', tags: ['a'] } })
+    expect(setState.mock.calls[0][0].user.tags).toBe(state.user.tags)
+    expect(state.user.name).toBe('Ada')
+  })
+
+  it('rejects components without class state and paths that no longer exist', () => {
+    const [, functionId] = mount({})
+    const [, classId] = mount({ tag: WorkTag.ClassComponent, stateNode: { state: { count: 1 }, setState: vi.fn() } })
+
+    expect(overrideState(functionId, ['count'], 2)).toBe('the component has no class state')
+    expect(overrideState(classId, ['total'], 2)).toBe('state.total no longer exists')
+    expect(overrideState(classId, [], {})).toBe('state can only be edited one key at a time')
+  })
+})
+
+describe('overrideHookState', () => {
+  // useState, useEffect, useReducer
+  function hooks(): FiberNode['memoizedState'] {
+    const reducer = { memoizedState: { items: ['a'] }, queue: { lastRenderedReducer: () => null }, next: null }
+    const effect = { memoizedState: { create: () => {} }, queue: null, next: reducer }
+    return { memoizedState: 0, queue: { lastRenderedReducer: () => null }, next: effect }
+  }
+
+  it('addresses hooks by their index in the list', () => {
+    const [fiber, id] = mount({ memoizedState: hooks() })
+
+    expect(overrideHookState(id, 2, ['items', 0], 'b')).toBeNull()
+    expect(overrideHookState(id, 0, [], 5)).toBeNull()
+    expect(renderer.overrideHookState.mock.calls).toEqual([
+      [fiber, 2, ['items', 0], 'b'],
+      [fiber, 0, [], 5],
+    ])
+  })
+
+  it('rejects hooks that hold no state and paths that no longer exist', () => {
+    const [, id] = mount({ memoizedState: hooks() })
+
+    expect(overrideHookState(id, 1, [], 5)).toBe('hook 1 is no longer a state hook')
+    expect(overrideHookState(id, 3, [], 5)).toBe('hook 3 is no longer a state hook')
+    expect(overrideHookState(id, 2, ['total'], 5)).toBe('total no longer exists in hook 2')
+    expect(renderer.overrideHookState).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import type { ReactDevToolsProfile } from '../src/profile-export'
+import { fromReactDevToolsProfile, toChromeTrace } from '../src/profile-export'
+import type { CommitData, ProfilerData, ProfilingSession } from '../src/types'
+
+function fiber(id: number, parentId: number, displayName: string, actualDuration: number, selfDuration: number, treeBaseDuration: number): ProfilerData {
+  const didRender = actualDuration > 0
+  return { id, displayName, type: id === 1 ? 'root' : 'function', parentId, didRender, actualDuration, selfDuration, selfBaseDuration: 0, treeBaseDuration }
+}
+
+function commit(commitTime: number, fibers: ProfilerData[]): CommitData {
+  return {
+    rootId: 1,
+    commitTime,
+    duration: fibers[0].actualDuration,
+    effectDuration: null,
+    passiveEffectDuration: null,
+    priorityLevel: 'Normal',
+    updaters: [{ displayName: 'App', id: 2, type: 'function' }],
+    fibers,
+  }
+}
+
+const session: ProfilingSession = {
+  startTime: 0,
+  recording: false,
+  commits: [
+    commit(10, [
+      fiber(1, 0, 'Root(div#root)', 6, 1, 6),
+      fiber(2, 1, 'App', 5, 2, 5),
+      fiber(3, 2, 'Memo(Card)', 3, 3, 3),
+    ]),
+    commit(20, [
+      fiber(1, 0, 'Root(div#root)', 0, 0, 6),
+      fiber(2, 1, 'App', 2, 1, 4),
+      fiber(3, 2, 'Memo(Card)', 0, 0, 3),
+    ]),
+  ],
+}
+
+describe('toChromeTrace', () => {
+  it('nests component renders inside their commit', () => {
+    const events = toChromeTrace(session).traceEvents.filter(event => event.ph === 'X')
+
+    expect(events.slice(0, 4).map(event => [event.name, event.ts, event.dur])).toEqual([
+      ['Commit 1', 4000, 6000],
+      ['Root(div#root)', 4000, 6000],
+      ['App', 5000, 5000],
+      ['Memo(Card)', 7000, 3000],
+    ])
+    expect(events.slice(4).map(event => [event.name, event.ts, event.dur])).toEqual([
+      ['Commit 2', 20000, 0],
+      ['App', 20000, 0],
+    ])
+  })
+})
+
+describe('fromReactDevToolsProfile', () => {
+  // What React DevTools exports for the same recording: the tree at the start,
+  // then App's new tree base duration in the second commit
+  const updater = { id: 2, displayName: 'App', hocDisplayNames: null, key: null, type: 5 }
+  const profile: ReactDevToolsProfile = {
+    version: 5,
+    dataForRoots: [{
+      rootID: 1,
+      displayName: 'Root(div#root)',
+      snapshots: [
+        [1, { id: 1, children: [2], displayName: null, hocDisplayNames: null, key: null, type: 11 }],
+        [2, { id: 2, children: [3], displayName: 'App', hocDisplayNames: null, key: null, type: 5 }],
+        [3, { id: 3, children: [], displayName: 'Card', hocDisplayNames: ['Memo'], key: null, type: 5 }],
+      ],
+      initialTreeBaseDurations: [[1, 6], [2, 5], [3, 3]],
+      operations: [[1, 1, 0], [1, 1, 0, 4, 2, 4000]],
+      commitData: [
+        {
+          changeDescriptions: null,
+          duration: 6,
+          effectDuration: null,
+          fiberActualDurations: [[1, 6], [2, 5], [3, 3]],
+          fiberSelfDurations: [[1, 1], [2, 2], [3, 3]],
+          passiveEffectDuration: null,
+          priorityLevel: 'Normal',
+          timestamp: 10,
+          updaters: [updater],
+        },
+        {
+          changeDescriptions: null,
+          duration: 0,
+          effectDuration: null,
+          fiberActualDurations: [[2, 2]],
+          fiberSelfDurations: [[2, 1]],
+          passiveEffectDuration: null,
+          priorityLevel: 'Normal',
+          timestamp: 20,
+          updaters: [updater],
+        },
+      ],
+    }],
+  }
+
+  it('rebuilds the commits as a read-only session', () => {
+    const imported = fromReactDevToolsProfile(JSON.parse(JSON.stringify(profile)))
+
+    expect(imported?.readOnly).toBe(true)
+    expect(imported?.commits).toEqual(session.commits)
+  })
+
+  it('rejects other files', () => {
+    expect(fromReactDevToolsProfile({ traceEvents: [] })).toBeNull()
+  })
+})
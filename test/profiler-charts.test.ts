@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { layoutFlameGraph, layoutRankedChart } from '../src/profiler-charts'
+import type { CommitData, ProfilerData } from '../src/types'
+
+function fiber(id: number, parentId: number, treeBaseDuration: number, selfDuration: number, didRender = true): ProfilerData {
+  return { id, displayName: `C${id}`, type: 'function', parentId, didRender, actualDuration: selfDuration, selfDuration, selfBaseDuration: selfDuration, treeBaseDuration }
+}
+
+function commit(fibers: ProfilerData[]): CommitData {
+  return { rootId: 1, commitTime: 0, duration: 0, effectDuration: null, passiveEffectDuration: null, priorityLevel: 'Normal', updaters: [], fibers }
+}
+
+describe('layoutFlameGraph', () => {
+  it('sizes components by their tree base duration, one row per depth', () => {
+    const { rows } = layoutFlameGraph(commit([
+      fiber(1, 0, 10, 1),
+      fiber(2, 1, 6, 2),
+      fiber(3, 2, 3, 3),
+      fiber(4, 1, 2, 0, false),
+    ]))
+
+    expect(rows.map(row => row.map(bar => [bar.fiber.id, bar.x, bar.width]))).toEqual([
+      [[1, 0, 1]],
+      [[2, 0, 0.6], [4, 0.6, 0.2]],
+      [[3, 0, 0.3]],
+    ])
+  })
+
+  it('splits evenly without timings', () => {
+    const { rows } = layoutFlameGraph(commit([fiber(1, 0, 0, 0), fiber(2, 1, 0, 0), fiber(3, 1, 0, 0)]))
+
+    expect(rows[1].map(bar => [bar.x, bar.width])).toEqual([[0, 0.5], [0.5, 0.5]])
+  })
+})
+
+describe('layoutRankedChart', () => {
+  it('ranks the components that rendered by self duration', () => {
+    const { rows, maxSelfDuration } = layoutRankedChart(commit([
+      fiber(1, 0, 10, 1),
+      fiber(2, 1, 6, 4),
+      fiber(3, 1, 2, 9, false),
+      fiber(4, 1, 2, 2),
+    ]))
+
+    expect(maxSelfDuration).toBe(4)
+    expect(rows.map(([bar]) => [bar.fiber.id, bar.width])).toEqual([[2, 1], [4, 0.5], [1, 0.25]])
+  })
+})
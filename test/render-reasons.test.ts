@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { WorkTag } from '../src/fiber-tags'
+import { getRenderReason } from '../src/render-reasons'
+import type { FiberNode, HookNode } from '../src/types'
+
+function hooks(...states: Array<[unknown, boolean]>): HookNode | null {
+  let first: HookNode | null = null
+  for (const [memoizedState, hasQueue] of states.reverse()) {
+    first = { memoizedState, queue: hasQueue ? {} : null, next: first }
+  }
+  return first
+}
+
+function update(previous: Partial<FiberNode>, next: Partial<FiberNode>): FiberNode {
+  const alternate = { tag: WorkTag.FunctionComponent, memoizedProps: {}, ...previous } as FiberNode
+  return { tag: WorkTag.FunctionComponent, memoizedProps: {}, ...next, alternate } as FiberNode
+}
+
+describe('getRenderReason', () => {
+  it('diffs props shallowly and flags recreated equal values', () => {
+    const onClick = () => {}
+    const reason = getRenderReason(update(
+      { memoizedProps: { onClick, count: 1, user: { name: 'Ada' } } },
+      { memoizedProps: { onClick, count: 2, user: { name: 'Ada' } } },
+    ), 1, 0)
+
+    expect(reason.props).toEqual([
+      { name: 'count', before: 1, after: 2, deepEqual: false },
+      { name: 'user', before: { name: 'Ada' }, after: { name: 'Ada' }, deepEqual: true },
+    ])
+    expect(reason.parent).toBe(false)
+  })
+
+  it('reports state hooks that changed but not effects or memos', () => {
+    const reason = getRenderReason(update(
+      { memoizedState: hooks([1, true], [{}, false], ['a', true]) },
+      { memoizedState: hooks([1, true], [{}, false], ['b', true]) },
+    ), 1, 0)
+
+    expect(reason.hooks).toEqual([2])
+  })
+
+  it('reports context values that changed', () => {
+    const context = {}
+    const reason = getRenderReason(update(
+      { dependencies: { firstContext: { context, memoizedValue: 'light', next: null } } },
+      { dependencies: { firstContext: { context, memoizedValue: 'dark', next: null } } },
+    ), 1, 0)
+
+    expect(reason.context).toBe(true)
+  })
+
+  it('blames the parent when only the props object is new', () => {
+    const reason = getRenderReason(update({ memoizedProps: { a: 1 } }, { memoizedProps: { a: 1 } }), 1, 0)
+
+    expect(reason).toMatchObject({ props: [], hooks: [], context: false, parent: true })
+  })
+})
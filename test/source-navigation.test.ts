@@ -0,0 +1,64 @@
+import type { ViteDevServer } from 'vite'
+import { describe, expect, it } from 'vitest'
+import { getSourceMapLocation, parseLocation, toModuleUrl } from '../src/source-navigation'
+
+/**
+ * A dev server that serves one module with the given map
+ */
+function createServer(map: object | null, file: string | null = '/project/src/App.tsx') {
+  const requested: string[] = []
+  const server = {
+    transformRequest: async (url: string) => {
+      requested.push(url)
+      return { code: '', map }
+    },
+    moduleGraph: {
+      getModuleByUrl: async (url: string) => file ? { url, file } : undefined,
+    },
+  } as unknown as ViteDevServer
+  return { server, requested }
+}
+
+describe('parseLocation', () => {
+  it('splits a served URL from its position', () => {
+    expect(parseLocation('/src/App.tsx?t=123:42:7')).toEqual({ file: '/src/App.tsx?t=123', line: 42, column: 7 })
+    expect(parseLocation('/src/App.tsx:42')).toEqual({ file: '/src/App.tsx', line: 42, column: undefined })
+    expect(parseLocation('/src/App.tsx')).toEqual({ file: '/src/App.tsx' })
+  })
+
+  it('keeps the origin and drive letters in the file', () => {
+    expect(parseLocation('http://localhost:5173/src/App.tsx:3:1')).toEqual({ file: 'http://localhost:5173/src/App.tsx', line: 3, column: 1 })
+    expect(parseLocation('C:\\app\\src\\App.tsx:3:1')).toEqual({ file: 'C:\\app\\src\\App.tsx', line: 3, column: 1 })
+  })
+})
+
+describe('toModuleUrl', () => {
+  it('strips the origin from served URLs', () => {
+    expect(toModuleUrl('http://localhost:5173/src/App.tsx?t=123')).toBe('/src/App.tsx?t=123')
+    expect(toModuleUrl('/src/App.tsx')).toBe('/src/App.tsx')
+  })
+})
+
+describe('getSourceMapLocation', () => {
+  it('traces a served position back to the original file', async () => {
+    // Served line 3 column 4 comes from line 2 column 2, both 0-based
+    const { server, requested } = createServer({ version: 3, sources: ['App.tsx?t=123'], names: [], mappings: ';;IACE' })
+
+    const location = await getSourceMapLocation(server, 'http://localhost:5173/src/App.tsx?t=123', 3, 5)
+
+    expect(requested).toEqual(['/src/App.tsx?t=123'])
+    expect(location).toEqual({ file: '/project/src/App.tsx', line: 2, column: 3 })
+  })
+
+  it('keeps the position of modules no plugin changed', async () => {
+    const { server } = createServer({ mappings: '' })
+
+    expect(await getSourceMapLocation(server, '/src/App.tsx', 3, 5)).toEqual({ file: '/project/src/App.tsx', line: 3, column: 5 })
+  })
+
+  it('returns null for modules the dev server doesn\'t know', async () => {
+    const { server } = createServer(null, null)
+
+    expect(await getSourceMapLocation(server, '/src/Missing.tsx', 1, 1)).toBeNull()
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { getFiberId } from '../src/fiber-registry'
+import { WorkTag } from '../src/fiber-tags'
+import { getStateHistory, recordStateHistory, restoreStateSnapshot, setTrackedComponents } from '../src/state-history'
+import type { FiberNode, HookNode } from '../src/types'
+
+function stateHooks(...values: unknown[]): HookNode | null {
+  let first: HookNode | null = null
+  for (const value of values.reverse()) {
+    first = { memoizedState: value, queue: { lastRenderedReducer: () => value }, next: first }
+  }
+  return first
+}
+
+function render(fiber: FiberNode, next: Partial<FiberNode>, commit: number) {
+  Object.assign(fiber, next)
+  recordStateHistory([fiber], commit)
+}
+
+describe('state history', () => {
+  it('records props and state transitions of tracked components', () => {
+    const fiber = { tag: WorkTag.FunctionComponent, memoizedProps: { label: 'a' }, memoizedState: stateHooks(0, 'x') } as FiberNode
+    const componentId = getFiberId(fiber)
+    setTrackedComponents([componentId])
+
+    render(fiber, { memoizedState: stateHooks(1, 'x') }, 1)
+    // A parent render with the same values isn't a transition
+    render(fiber, { memoizedProps: { label: 'a' } }, 2)
+    render(fiber, { memoizedProps: { label: 'b' }, memoizedState: stateHooks(1, 'y') }, 3)
+
+    expect(getStateHistory(componentId).map(({ commit, hooks, changes }) => ({ commit, hooks, changes }))).toEqual([
+      { commit: 0, hooks: [{ index: 0, value: 0 }, { index: 1, value: 'x' }], changes: [] },
+      { commit: 1, hooks: [{ index: 0, value: 1 }, { index: 1, value: 'x' }], changes: ['hooks[0]'] },
+      { commit: 3, hooks: [{ index: 0, value: 1 }, { index: 1, value: 'y' }], changes: ['props.label', 'hooks[1]'] },
+    ])
+  })
+
+  it('keeps the latest snapshots in a ring buffer', () => {
+    const fiber = { tag: WorkTag.ClassComponent, memoizedProps: {}, memoizedState: { count: 0 } } as FiberNode
+    const componentId = getFiberId(fiber)
+    setTrackedComponents([componentId])
+
+    for (let count = 1; count <= 60; count++) {
+      render(fiber, { memoizedState: { count } }, count)
+    }
+
+    const history = getStateHistory(componentId)
+    expect(history).toHaveLength(50)
+    expect(history.map(snapshot => snapshot.state)).toEqual(Array.from({ length: 50 }, (_, index) => ({ count: index + 11 })))
+  })
+
+  it('drops the history of components no longer tracked', () => {
+    const fiber = { tag: WorkTag.FunctionComponent, memoizedProps: {}, memoizedState: null } as FiberNode
+    const componentId = getFiberId(fiber)
+    setTrackedComponents([componentId])
+    const [snapshot] = getStateHistory(componentId)
+
+    setTrackedComponents([])
+
+    expect(getStateHistory(componentId)).toEqual([])
+    expect(restoreStateSnapshot(componentId, snapshot.id)).toBe('the snapshot is no longer recorded')
+  })
+})
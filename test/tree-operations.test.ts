@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getFiberId } from '../src/fiber-registry'
+import { WorkTag } from '../src/fiber-tags'
+import { applyTreeOperations, computeTreeOperations, createTreeSnapshot, createTreeStore } from '../src/tree-operations'
+import type { FiberNode, FiberRoot, ReactComponent, TreeOperation } from '../src/types'
+
+function component(id: number, children: ReactComponent[] = []): ReactComponent {
+  return { id, name: `C${id}`, type: 'function', props: {}, children }
+}
+
+type Shape = Array<[number, Shape]>
+
+function shape(components: ReactComponent[]): Shape {
+  return components.map(c => [c.id, shape(c.children)])
+}
+
+describe('applyTreeOperations', () => {
+  it('mounts, reorders and unmounts components', () => {
+    const store = createTreeStore([component(1, [component(2), component(3)])], 1)
+
+    expect(applyTreeOperations(store, [
+      { op: 'mount', id: 4, parentId: 1, component: component(4) },
+      { op: 'mount', id: 5, parentId: 4, component: component(5) },
+      { op: 'unmount', id: 2 },
+      { op: 'reorder', id: 1, childIds: [4, 3] },
+    ])).toBe(true)
+
+    expect(shape(store.roots)).toEqual([[1, [[4, [[5, []]]], [3, []]]]])
+    expect(store.nodes.has(2)).toBe(false)
+    expect(store.parents.get(5)).toBe(4)
+  })
+
+  it('drops whole subtrees on unmount', () => {
+    const store = createTreeStore([component(1, [component(2, [component(3)])])], 1)
+
+    applyTreeOperations(store, [{ op: 'unmount', id: 2 }])
+
+    expect(shape(store.roots)).toEqual([[1, []]])
+    expect(store.nodes.has(3)).toBe(false)
+  })
+
+  it('updates component data in place', () => {
+    const store = createTreeStore([component(1, [component(2)])], 1)
+
+    applyTreeOperations(store, [{ op: 'update', id: 1, component: { ...component(1), props: { a: 1 } } }])
+
+    expect(store.roots[0].props).toEqual({ a: 1 })
+    expect(shape(store.roots)).toEqual([[1, [[2, []]]]])
+  })
+
+  it('reports operations that do not fit the store', () => {
+    const store = createTreeStore([component(1)], 1)
+
+    expect(applyTreeOperations(store, [{ op: 'mount', id: 3, parentId: 2, component: component(3) }])).toBe(false)
+    expect(applyTreeOperations(store, [{ op: 'reorder', id: 0, childIds: [1, 9] }])).toBe(false)
+  })
+})
+
+describe('computeTreeOperations', () => {
+  const fiberRoot: { current: FiberNode | null } = { current: null }
+
+  function App() {}
+  function Item() {}
+  function Label() {}
+
+  /**
+   * Builds a committed fiber, `alternate` being the fiber it replaces
+   */
+  function fiber(type: FiberNode['type'], children: FiberNode[] = [], { key = null, props, alternate = null }: Partial<Pick<FiberNode, 'key' | 'alternate'>> & { props?: object } = {}): FiberNode {
+    const node = {
+      tag: typeof type === 'string' ? WorkTag.HostComponent : WorkTag.FunctionComponent,
+      type,
+      elementType: type,
+      key,
+      // Unchanged props unless given, as for a parent that re-rendered
+      memoizedProps: props ?? alternate?.memoizedProps ?? {},
+      memoizedState: null,
+      alternate,
+      child: null,
+      sibling: null,
+      return: null,
+    } as unknown as FiberNode
+    children.forEach((child, index) => {
+      child.return = node
+      if (index === 0) {
+        node.child = child
+      }
+      else {
+        children[index - 1].sibling = child
+      }
+    })
+    if (alternate) {
+      alternate.alternate = node
+    }
+    return node
+  }
+
+  /**
+   * Commits a new current tree for the root
+   */
+  function commit(children: FiberNode[]): TreeOperation[] {
+    const previous = fiberRoot.current
+    const root = fiber(null, children, { alternate: previous })
+    root.tag = WorkTag.HostRoot
+    root.stateNode = fiberRoot
+    root.memoizedState = { element: {} }
+    fiberRoot.current = root
+    return computeTreeOperations(fiberRoot as FiberRoot)
+  }
+
+  /**
+   * Commits the initial tree and takes the snapshot operations apply on top of
+   */
+  function mount(children: FiberNode[]) {
+    commit(children)
+    createTreeSnapshot()
+  }
+
+  function summarize(operations: TreeOperation[]) {
+    return operations.map(operation => operation.op === 'reorder'
+      ? [operation.op, operation.id, operation.childIds]
+      : operation.op === 'mount'
+        ? [operation.op, operation.id, operation.parentId, operation.component.name]
+        : [operation.op, operation.id])
+  }
+
+  beforeEach(() => {
+    fiberRoot.current = null
+    vi.stubGlobal('window', {
+      __REACT_DEVTOOLS_GLOBAL_HOOK__: {
+        renderers: new Map([[1, {}]]),
+        getFiberRoots: () => new Set([fiberRoot]),
+      },
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('mounts components below the nearest component ancestor', () => {
+    const app = fiber(App)
+    mount([app])
+
+    const label = fiber(Label)
+    const operations = commit([fiber(App, [fiber('div', [label])], { alternate: app })])
+
+    expect(summarize(operations)).toEqual([['mount', getFiberId(label), getFiberId(app), 'Label']])
+  })
+
+  it('reorders keyed children without remounting them', () => {
+    const a = fiber(Item, [], { key: 'a' })
+    const b = fiber(Item, [], { key: 'b' })
+    const app = fiber(App, [a, b])
+    mount([app])
+
+    const operations = commit([fiber(App, [fiber(Item, [], { key: 'b', alternate: b }), fiber(Item, [], { key: 'a', alternate: a })], { alternate: app })])
+
+    expect(summarize(operations)).toEqual([['reorder', getFiberId(app), [getFiberId(b), getFiberId(a)]]])
+  })
+
+  it('inserts in the middle with a mount and a reorder', () => {
+    const a = fiber(Item, [], { key: 'a' })
+    const c = fiber(Item, [], { key: 'c' })
+    const app = fiber(App, [a, c])
+    mount([app])
+
+    const b = fiber(Item, [], { key: 'b' })
+    const operations = commit([fiber(App, [fiber(Item, [], { key: 'a', alternate: a }), b, fiber(Item, [], { key: 'c', alternate: c })], { alternate: app })])
+
+    expect(summarize(operations)).toEqual([
+      ['mount', getFiberId(b), getFiberId(app), 'Item'],
+      ['reorder', getFiberId(app), [getFiberId(a), getFiberId(b), getFiberId(c)]],
+    ])
+  })
+
+  it('unmounts a whole subtree with one operation', () => {
+    const item = fiber(Item, [fiber(Label)])
+    const app = fiber(App, [item])
+    mount([app])
+
+    const operations = commit([fiber(App, [], { alternate: app })])
+
+    expect(summarize(operations)).toEqual([['unmount', getFiberId(item)]])
+  })
+
+  it('reports updates and skips subtrees that did no work', () => {
+    const item = fiber(Item)
+    const app = fiber(App, [item], { props: { count: 1 } })
+    mount([app])
+
+    const next = fiber(App, [], { props: { count: 2 }, alternate: app })
+    // React reuses the child pointer of a subtree that bailed out
+    next.child = app.child
+    item.child = fiber(Label)
+    const operations = commit([next])
+
+    expect(summarize(operations)).toEqual([['update', getFiberId(app)]])
+  })
+})